@@ -1,26 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { CorsResponse } from '@/lib/api-schemas';
 
-export async function OPTIONS(request: NextRequest) {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
-      'Access-Control-Max-Age': '86400',
-    },
+// CORS headers (allowed origins only) and preflight responses come from middleware.ts
+export async function GET(request: NextRequest) {
+  return NextResponse.json<CorsResponse>({
+    message: 'CORS enabled',
+    origin: request.headers.get('origin'),
   });
 }
-
-export async function GET(request: NextRequest) {
-  return NextResponse.json(
-    { message: 'CORS enabled' },
-    {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
-      },
-    }
-  );
-} 
\ No newline at end of file
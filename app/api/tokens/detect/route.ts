@@ -1,39 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { detectQuerySchema, toApiError, type DetectResponse, type DetectedToken } from '@/lib/api-schemas'
+import { getOrLoad, getServerCache } from '@/lib/server-cache'
+import { getUpstream } from '@/lib/upstream'
 
-interface TokenInfo {
-  address: string
-  symbol: string
-  name: string
-  decimals: number
-  price?: number
-  source: string
-}
-
-// Cache for token list (shorter duration for more dynamic updates)
-let tokenCache: {
-  tokens: TokenInfo[]
-  timestamp: number
-} | null = null
+type TokenInfo = DetectedToken
 
+// Token list cache (shorter duration for more dynamic updates)
+const CACHE_KEY = 'detect:tokens:v1'
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes - keep dynamic
+const STALE_DURATION = 30 * 60 * 1000 // Served while a refresh runs
 
-// Helper function to fetch with timeout
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout = 10000) {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
-}
+// All DexScreener queries share one rate limit and circuit breaker
+const fetchWithTimeout = (url: string, options: RequestInit = {}, timeout = 10000) =>
+  getUpstream('dexscreener').request(url, { init: options, timeoutMs: timeout })
 
 // 🚀 FULLY DYNAMIC: Live Base token discovery
 const fetchLiveDynamicTokens = async (): Promise<TokenInfo[]> => {
@@ -278,60 +257,46 @@ const fetchLiveDynamicTokens = async (): Promise<TokenInfo[]> => {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const clearCache = searchParams.get('clear')
-    const forceRefresh = searchParams.get('refresh')
+    const query = detectQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+    if (!query.success) {
+      return NextResponse.json(toApiError(query.error, 'Invalid query'), { status: 400 })
+    }
+    const { clear: clearCache, refresh: forceRefresh } = query.data
+    
+    const cache = getServerCache()
     
     if (clearCache === '1' || forceRefresh === '1') {
-      tokenCache = null
+      await cache.delete(CACHE_KEY)
       console.log('🗑️ Cache cleared - will fetch LIVE data')
     }
     
-    // Check cache first (but with shorter duration for more dynamic updates)
-    if (tokenCache && Date.now() - tokenCache.timestamp < CACHE_DURATION) {
-      console.log(`⚡ Returning ${tokenCache.tokens.length} cached LIVE tokens`)
-      return NextResponse.json({
-        success: true,
-        tokens: tokenCache.tokens,
-        metadata: {
-          totalTokens: tokenCache.tokens.length,
-          sources: ['cache-live'],
-          timestamp: new Date(tokenCache.timestamp).toISOString(),
-          cacheExpiry: new Date(tokenCache.timestamp + CACHE_DURATION).toISOString(),
-        },
-      })
-    }
+    // Fresh entries return immediately; stale ones return while a refresh runs
+    const { value: tokens, status, storedAt, expiresAt } = await getOrLoad(
+      cache,
+      CACHE_KEY,
+      fetchLiveDynamicTokens,
+      { ttlMs: CACHE_DURATION, staleTtlMs: STALE_DURATION },
+      fetched => fetched.length > 0
+    )
     
-    console.log('🔄 Fetching LIVE dynamic tokens...')
+    console.log(`✅ Returning ${tokens.length} LIVE tokens (cache ${status})`)
     
-    // Always fetch live data - no static tokens
-    const tokens = await fetchLiveDynamicTokens()
-    
-    // Cache the LIVE results
-    if (tokens.length > 0) {
-      tokenCache = {
-        tokens,
-        timestamp: Date.now()
-      }
-    }
-    
-    console.log(`✅ Returning ${tokens.length} LIVE tokens`)
-    
-    return NextResponse.json({
+    return NextResponse.json<DetectResponse>({
       success: true,
       tokens,
       metadata: {
         totalTokens: tokens.length,
-        sources: ['dexscreener-live'],
-        timestamp: new Date().toISOString(),
-        cacheExpiry: new Date(Date.now() + CACHE_DURATION).toISOString(),
+        sources: status === 'miss' ? ['dexscreener-live'] : ['cache-live'],
+        cacheStatus: status,
+        timestamp: new Date(storedAt).toISOString(),
+        cacheExpiry: new Date(expiresAt).toISOString(),
       },
     })
     
   } catch (error) {
     console.error('❌ LIVE API Error:', error)
     
-    return NextResponse.json({
+    return NextResponse.json<DetectResponse>({
       success: false,
       tokens: [],
       metadata: {
@@ -344,14 +309,3 @@ export async function GET(request: NextRequest) {
     })
   }
 }
-
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-    },
-  })
-}
\ No newline at end of file
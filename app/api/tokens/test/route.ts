@@ -1,39 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { detectResponseSchema, fetchApi, type TokensTestResponse } from '@/lib/api-schemas'
 
 export async function GET(request: NextRequest) {
   try {
     // Test the main token detection API
-    const response = await fetch('http://localhost:3000/api/tokens/detect')
-    const data = await response.json()
+    const data = await fetchApi(`${request.nextUrl.origin}/api/tokens/detect`, detectResponseSchema)
     
-    return NextResponse.json({
+    return NextResponse.json<TokensTestResponse>({
       success: true,
       testResult: {
         apiWorking: data.success,
-        tokenCount: data.tokens?.length || 0,
-        sources: data.metadata?.sources || [],
-        timestamp: data.metadata?.timestamp || new Date().toISOString()
+        tokenCount: data.tokens.length,
+        sources: data.metadata.sources,
+        timestamp: data.metadata.timestamp
       },
       message: 'Token detection API test completed'
     })
   } catch (error) {
     console.error('Error testing token detection API:', error)
     
-    return NextResponse.json({
+    return NextResponse.json<TokensTestResponse>({
       success: false,
       error: 'Failed to test token detection API',
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
 }
-
-export async function OPTIONS() {
-  return new NextResponse(null, {
-    status: 200,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type'
-    }
-  })
-} 
\ No newline at end of file
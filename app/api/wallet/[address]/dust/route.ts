@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toApiError, walletDustParamsSchema, walletDustQuerySchema, type WalletDustResponse } from '@/lib/api-schemas'
+import { getOrLoad, getServerCache } from '@/lib/server-cache'
+import { scanWalletDust } from '@/lib/wallet-dust'
+
+// Balances move with every swap, so wallet scans are kept briefly
+const CACHE_DURATION = 60 * 1000 // 1 minute
+const STALE_DURATION = 5 * 60 * 1000 // Served while a refresh runs
+
+const dustKey = (address: string) => `wallet:dust:v3:${address}`
+
+export async function GET(request: NextRequest, { params }: { params: { address: string } }) {
+  const parsedParams = walletDustParamsSchema.safeParse(params)
+  if (!parsedParams.success) {
+    return NextResponse.json(toApiError(parsedParams.error, 'Invalid wallet address'), { status: 400 })
+  }
+
+  const query = walletDustQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!query.success) {
+    return NextResponse.json(toApiError(query.error, 'Invalid query'), { status: 400 })
+  }
+
+  const { address } = parsedParams.data
+
+  try {
+    console.log(`🔍 Server dust scan for ${address}`)
+
+    const cache = getServerCache()
+
+    // Clients ask for a refresh right after a swap
+    if (query.data.refresh === '1') {
+      await cache.delete(dustKey(address))
+    }
+
+    // Background refreshes outlive the request, so the scan gets its own signal
+    const { value: scan, status, storedAt, expiresAt } = await getOrLoad(
+      cache,
+      dustKey(address),
+      () => scanWalletDust(address, new AbortController().signal),
+      { ttlMs: CACHE_DURATION, staleTtlMs: STALE_DURATION },
+      // Don't pin an empty wallet when every provider failed
+      result => result.outcomes.some(outcome => outcome.status === 'fulfilled')
+    )
+
+    const eligibleTokens = scan.tokens.filter(token => token.isEligible).length
+    console.log(`💸 ${eligibleTokens} eligible of ${scan.tokens.length} tokens for ${address} (cache ${status})`)
+
+    return NextResponse.json<WalletDustResponse>({
+      success: true,
+      address,
+      tokens: scan.tokens,
+      metadata: {
+        totalTokens: scan.tokens.length,
+        eligibleTokens,
+        providers: scan.outcomes.map(({ id, status, tokenCount }) => ({ id, status, tokenCount })),
+        priceCacheHits: scan.priceCacheHits,
+        cacheStatus: status,
+        timestamp: new Date(storedAt).toISOString(),
+        cacheExpiry: new Date(expiresAt).toISOString()
+      }
+    })
+
+  } catch (error) {
+    console.error('❌ Server dust scan failed:', error)
+
+    return NextResponse.json<WalletDustResponse>({
+      success: false,
+      address,
+      tokens: [],
+      metadata: {
+        totalTokens: 0,
+        eligibleTokens: 0,
+        providers: [],
+        priceCacheHits: 0,
+        timestamp: new Date().toISOString(),
+        cacheExpiry: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error in wallet scan'
+      }
+    }, { status: 500 })
+  }
+}
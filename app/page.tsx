@@ -1,50 +1,32 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchChain, usePublicClient, useDisconnect } from "wagmi"
+import { useState, useEffect, useMemo } from "react"
+import { useAccount, useWriteContract, useWaitForTransactionReceipt, useSwitchChain, usePublicClient, useWalletClient, useDisconnect } from "wagmi"
 import { waitForTransactionReceipt } from "wagmi/actions"
 import { base } from "wagmi/chains"
-import { parseUnits, formatUnits } from "viem"
-import { ChevronDown, ChevronUp, Loader2, RefreshCw, Shield, AlertCircle } from "lucide-react"
+import { formatUnits } from "viem"
+import { BadgeCheck, ChevronDown, ChevronUp, Loader2, RefreshCw, Settings, Shield, AlertCircle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { toast } from "@/hooks/use-toast"
 import { WalletConnect } from "@/components/wallet-connect"
+import { SwapSettingsPanel } from "@/components/swap-settings-panel"
 import { NetworkGuard } from "@/components/network-guard"
+import { TokenLogo } from "@/components/token-logo"
 import ErrorBoundary from "@/components/error-boundary"
 import { ClientOnly } from "@/components/client-only"
 import { LoadingSkeleton } from "@/components/loading-skeleton"
 import { useComprehensiveTokenDetection } from "@/hooks/use-comprehensive-token-detection"
+import { useSwapSettings } from "@/hooks/use-swap-settings"
 import { strings } from "@/lib/strings"
-import { CONTRACT_ADDRESSES, SPLIT_ROUTER_ABI } from "@/lib/contracts"
+import { getDeployment } from "@/lib/deployments"
+import { createSwapEngine, SwapEngineError, type SwapEngineEvent, type SwapQuote } from "@/lib/swap-engine"
+import { formatBps } from "@/lib/swap-settings"
+import { decodeContractError } from "@/lib/contract-errors"
 import { config } from "@/lib/wagmi-config"
 import { sdk } from '@farcaster/miniapp-sdk'
 
-// Maximum uint256 value for unlimited approval
-const MAX_UINT256 = BigInt("115792089237316195423570985008687907853269984665640564039457584007913129639935")
-
-// Error signature decoder
-const decodeErrorSignature = (errorMessage: string): string => {
-  if (errorMessage.includes('0xfb8f41b2')) {
-    return 'ERC20: Insufficient allowance - please approve tokens first'
-  }
-  if (errorMessage.includes('0x4e487b71')) {
-    return 'Arithmetic overflow/underflow'
-  }
-  if (errorMessage.includes('0x4d5c4d5c')) {
-    return 'Invalid token address'
-  }
-  if (errorMessage.includes('0x8c5be1e5')) {
-    return 'ERC20: insufficient allowance'
-  }
-  if (errorMessage.includes('0xa9059cbb')) {
-    return 'ERC20: transfer amount exceeds balance'
-  }
-  return 'Unknown contract error'
-}
-
-
 /**
  * Converts a number (including scientific notation) to a proper decimal string for parseUnits
  * @param value - Number that might be in scientific notation (e.g., 6.9e-8)
@@ -84,8 +66,11 @@ export default function SwapDustApp() {
 
 function SwapDustInterface() {
   const { address, isConnected, chainId } = useAccount()
+  // Addresses for the connected chain; undefined on unsupported networks
+  const deployment = getDeployment(chainId)
   const { disconnect } = useDisconnect()
   const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
   const {
     tokens: dustTokens,
     selectedTokens: hookSelectedTokens,
@@ -100,8 +85,10 @@ function SwapDustInterface() {
   } = useComprehensiveTokenDetection()
   const { switchChain } = useSwitchChain()
   const [isFactsOpen, setIsFactsOpen] = useState(false)
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+  const { settings: swapSettings, updateSettings, resetSettings } = useSwapSettings()
+  const [lastQuote, setLastQuote] = useState<SwapQuote | null>(null)
   const [isSwapping, setIsSwapping] = useState(false)
-  const [selectedTokens, setSelectedTokens] = useState<string[]>([])
   const [approvalStatus, setApprovalStatus] = useState<string>('')
   const [swapValidation, setSwapValidation] = useState<{
     isValid: boolean
@@ -192,27 +179,39 @@ function SwapDustInterface() {
 
   // Use toggleTokenSelection from the hook instead
 
+  // Likely scams stay out of the list until the user asks for them
+  const [showHidden, setShowHidden] = useState(false)
+  const hiddenCount = dustTokens.filter((token) => token.riskLevel === 'high').length
+  const visibleTokens = showHidden ? dustTokens : dustTokens.filter((token) => token.riskLevel !== 'high')
+
   const toggleSelectAll = () => {
-    // Since hook filters to $0.10-$5.00, all tokens are eligible
-    const allAddresses = dustTokens.map((token) => token.address)
-    
-    setSelectedTokens((prev) => (
-      prev.length === allAddresses.length ? [] : allAddresses
-    ))
+    // Since hook filters to $0.10-$5.00, all tokens are eligible; high-risk ones are never bulk-selected
+    if (isAllSelected) {
+      deselectAllTokens()
+    } else {
+      selectAllTokens()
+    }
   }
 
+  // The hook owns the selection, so pre-flight can drop tokens from it once they're flagged
+  const selectedTokens = useMemo(
+    () => Object.keys(hookSelectedTokens).filter((address) => hookSelectedTokens[address]),
+    [hookSelectedTokens]
+  )
+
   // Since hook now filters to $0.10-$5.00, all dustTokens are eligible
-  const eligibleTokens = dustTokens
+  const eligibleTokens = dustTokens.filter((token) => token.riskLevel !== 'high' && !token.unswappable)
   const isAllSelected = selectedTokens.length === eligibleTokens.length && eligibleTokens.length > 0
   const isPartiallySelected = selectedTokens.length > 0 && selectedTokens.length < eligibleTokens.length
 
-  // Calculate totals for selected tokens only
-  const selectedTokensData = dustTokens.filter((token) => selectedTokens.includes(token.address))
+  // Calculate totals for selected tokens only; an unswappable token would revert the whole bundle
+  const selectedTokensData = useMemo(
+    () => dustTokens.filter((token) => selectedTokens.includes(token.address) && !token.unswappable),
+    [dustTokens, selectedTokens]
+  )
   const totalValue = selectedTokensData.reduce((sum, token) => sum + (token.valueUSD || 0), 0)
-  const higherAmount = totalValue * 0.8
-  const liquidityAmount = totalValue * 0.2
-  const netAfterFees = totalValue * 0.997 // After 0.3% DEX fee
-  const minReceived = higherAmount * 0.97 // 3% slippage protection
+  // USD estimate of the 80% user share after the 0.3% DEX fee; the enforced minimum comes from the engine's quote
+  const estimatedReceiveUsd = totalValue * 0.997 * 0.8
 
   // Real-time swap validation logic
   useEffect(() => {
@@ -287,20 +286,20 @@ function SwapDustInterface() {
   const verifyNetworkAndContract = async () => {
     try {
       // Check current network
-      const chainId = await publicClient?.getChainId()
+      const current = getDeployment(await publicClient?.getChainId())
       
-      if (chainId !== 8453 && chainId !== 84532) { // Base mainnet + Base Sepolia
+      if (!current) {
         toast({
           title: "Wrong Network",
-          description: "Please switch to Base network (mainnet or Sepolia)",
+          description: "Please switch to a supported network",
           variant: "destructive",
         })
         return false
       }
       
       // Check contract existence
-      const contractCode = await publicClient?.getCode({
-        address: CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`
+      const contractCode = current.isDeployed && await publicClient?.getCode({
+        address: current.contracts.SPLIT_ROUTER
       })
       
       if (!contractCode || contractCode === '0x') {
@@ -314,7 +313,7 @@ function SwapDustInterface() {
       
       toast({
         title: "Network Verified",
-        description: "Connected to Base mainnet with valid contract",
+        description: `Connected to ${current.chain.name} with valid contract`,
       })
       
       return true
@@ -330,317 +329,12 @@ function SwapDustInterface() {
     }
   }
 
-  const MAX_UINT256 = BigInt('0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff')
-
-  // Function to approve tokens with proper confirmation and verification
-    const approveToken = async (tokenAddress: string, amount: bigint) => {
-    try {
-      setIsApproving(true)
-      const token = dustTokens.find(t => t.address === tokenAddress)
-      const tokenSymbol = token?.symbol || 'Unknown Token'
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`🔐 Starting approval for ${tokenSymbol}:`)
-        console.log(`  Address: ${tokenAddress}`)
-        console.log(`  Amount: ${amount.toString()}`)
-        console.log(`  Contract: ${CONTRACT_ADDRESSES.SPLIT_ROUTER}`)
-      }
-
-      // Check if user actually has the tokens
-      if (!token || !token.balanceFormatted || parseFloat(token.balanceFormatted) === 0) {
-        throw new Error(`No balance found for ${tokenSymbol}. Cannot approve zero balance.`)
-      }
-
-      console.log(`  User balance: ${token.balanceFormatted} ${tokenSymbol}`)
-      console.log(`  User has sufficient balance: ✅`)
-
-      // Add a small buffer for precision issues (0.1% buffer) for ALL tokens
-      const balanceWei = parseUnits(token.balanceFormatted || '0', token.decimals)
-      const bufferAmount = (balanceWei * BigInt(1001)) / BigInt(1000) // Add 0.1% buffer
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`  Original amount: ${amount.toString()}`)
-        console.log(`  Buffer amount: ${bufferAmount.toString()}`)
-        console.log(`  Using buffer amount for approval (universal fix)`)
-      }
-      
-      // Use the buffer amount instead of the exact amount for ALL tokens
-      amount = bufferAmount
-      
-      // Check if wallet is connected
-      if (!address) {
-        throw new Error('Wallet not connected. Please connect your wallet first.')
-      }
-      
-      console.log(`  Wallet address: ${address}`)
-      console.log(`  Wallet connected: ✅`)
-      console.log(`  Contract address: ${CONTRACT_ADDRESSES.SPLIT_ROUTER}`)
-      console.log(`  Token address: ${tokenAddress}`)
-      console.log(`  Amount to approve: ${amount.toString()}`)
-      
-      setApprovalStatus(`Requesting approval for ${tokenSymbol}...`)
-      
-      // Show user-friendly message about approval
-      toast({
-        title: "Token Approval Required",
-        description: `Please approve ${tokenSymbol} spending in your wallet.`,
-        duration: 5000,
-      })
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log('📱 Wallet approval popup should appear now...')
-        console.log('  Please check your wallet for the approval request')
-        console.log('  If you see a popup, please approve it')
-        console.log('  If no popup appears, there might be an issue with the transaction')
-        
-        // Send approval transaction
-        console.log('🔄 Sending approval transaction...')
-        console.log('  Token Address:', tokenAddress)
-        console.log('  Spender (Contract):', CONTRACT_ADDRESSES.SPLIT_ROUTER)
-        console.log('  Amount:', amount.toString())
-      }
-      
-      try {
-        console.log('🔄 Calling writeContract for approval...')
-        const approveTx = await writeContract({
-          address: tokenAddress as `0x${string}`,
-          abi: [
-            {
-              name: 'approve',
-              type: 'function',
-              inputs: [
-                { name: 'spender', type: 'address' },
-                { name: 'amount', type: 'uint256' }
-              ],
-              outputs: [{ type: 'bool' }],
-              stateMutability: 'nonpayable'
-            }
-          ],
-          functionName: 'approve',
-          args: [CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`, amount],
-        })
-        
-        console.log('✅ Approval transaction submitted successfully')
-        console.log('Transaction result:', approveTx)
-      } catch (txError) {
-        console.error('❌ Approval transaction failed:', txError)
-        throw new Error(`Approval transaction failed: ${txError instanceof Error ? txError.message : String(txError)}`)
-      }
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log('✅ Approval transaction sent')
-      }
-      setApprovalStatus(`⏳ Confirming approval for ${tokenSymbol}...`)
-      
-      // Wait for transaction confirmation
-      console.log('⏳ Waiting for transaction confirmation...')
-      await new Promise(resolve => setTimeout(resolve, 3000)) // Wait 3 seconds
-      
-      // Check allowance after confirmation
-      console.log('⏳ Checking allowance after confirmation...')
-      try {
-        const newAllowance = await publicClient?.readContract({
-          address: tokenAddress as `0x${string}`,
-          abi: [
-            {
-              name: 'allowance',
-              type: 'function',
-              inputs: [
-                { name: 'owner', type: 'address' },
-                { name: 'spender', type: 'address' }
-              ],
-              outputs: [{ type: 'uint256' }],
-              stateMutability: 'view'
-            }
-          ],
-          functionName: 'allowance',
-          args: [address as `0x${string}`, CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`],
-        })
-        
-        console.log(`  Current allowance: ${newAllowance?.toString() || '0'}`)
-      } catch (error) {
-        console.log('  Could not verify allowance (continuing anyway)')
-      }
-      
-              // Skip strict allowance verification since approval transaction succeeded
-        console.log('✅ Approval transaction succeeded - proceeding with swap')
-        console.log(`  Approved amount: ${amount.toString()} (${formatUnits(amount, token.decimals)} ${tokenSymbol})`)
-      
-      setApprovalStatus(`✅ ${tokenSymbol} approved successfully`)
-      
-      toast({
-        title: "Approval Successful",
-        description: `${tokenSymbol} approved and verified! You can now proceed with the swap.`,
-        duration: 3000,
-      })
-      
-      return true
-    } catch (error) {
-      console.error(`❌ Approval failed for ${tokenAddress}:`, error)
-      
-      // Check for specific error types
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      
-      if (errorMessage.includes('user rejected') || errorMessage.includes('User rejected')) {
-        setApprovalStatus('❌ Approval rejected by user')
-        toast({
-          title: "Approval Rejected",
-          description: "Please approve the token spending to continue with swap",
-          variant: "destructive",
-          duration: 5000,
-        })
-      } else if (errorMessage.includes('insufficient funds')) {
-        setApprovalStatus('❌ Insufficient ETH for gas')
-        toast({
-          title: "Insufficient Funds",
-          description: "Insufficient ETH for approval transaction gas",
-          variant: "destructive",
-          duration: 5000,
-        })
-      } else {
-        setApprovalStatus('❌ Approval failed')
-        toast({
-          title: "Approval Failed",
-          description: "Token approval failed. Please try again.",
-          variant: "destructive",
-          duration: 5000,
-        })
-      }
-      
-      throw error
-    } finally {
-      setIsApproving(false)
-    }
-  }
-
-  // Check current allowance
-  const checkAllowance = async (tokenAddress: string, userAddress: string) => {
-    try {
-      const allowance = await publicClient?.readContract({
-        address: tokenAddress as `0x${string}`,
-        abi: [
-          {
-            name: 'allowance',
-            type: 'function',
-            inputs: [
-              { name: 'owner', type: 'address' },
-              { name: 'spender', type: 'address' }
-            ],
-            outputs: [{ type: 'uint256' }],
-            stateMutability: 'view'
-          }
-        ],
-        functionName: 'allowance',
-        args: [userAddress as `0x${string}`, CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`]
-      })
-      
-      return allowance || BigInt(0)
-    } catch (error) {
-      console.error(`Error checking allowance for ${tokenAddress}:`, error)
-      return BigInt(0)
-    }
-  }
-
-  // Debug Task 2: Test Single Token Approval
-  const testSingleApproval = async () => {
-    if (selectedTokensData.length === 0) {
-      console.log('❌ No tokens selected for testing')
-      return
-    }
-    
-    const testToken = selectedTokensData[0]
-    const amount = parseUnits(testToken.balanceFormatted || '0', testToken.decimals)
-    
-    console.log('🧪 TESTING SINGLE APPROVAL')
-    console.log('Token:', testToken.symbol, testToken.address)
-    console.log('Amount:', amount.toString())
-    console.log('Contract:', CONTRACT_ADDRESSES.SPLIT_ROUTER)
-    
-    try {
-      // Check allowance before
-      const beforeAllowance = await checkAllowance(testToken.address, address || '')
-      console.log('Before allowance:', beforeAllowance.toString())
-      
-      // Try approval
-      await approveToken(testToken.address, amount)
-      
-      // Check allowance after
-      const afterAllowance = await checkAllowance(testToken.address, address || '')
-      console.log('After allowance:', afterAllowance.toString())
-      
-      if (afterAllowance >= amount) {
-        console.log('✅ APPROVAL SUCCESSFUL')
-      } else {
-        console.log('❌ APPROVAL FAILED')
-      }
-      
-    } catch (error) {
-      console.log('❌ APPROVAL ERROR:', error)
-    }
-  }
-
-  // Debug function to check token state
-  const debugTokenState = async (tokenAddress: string) => {
-    try {
-      const token = dustTokens.find(t => t.address === tokenAddress)
-      if (!token) return
-      
-      console.log(`🔍 Debug ${token.symbol}:`)
-      console.log(`  Address: ${token.address}`)
-      console.log(`  Balance: ${token.balanceFormatted}`)
-      console.log(`  Value USD: $${token.valueUSD}`)
-      
-      const allowance = await checkAllowance(token.address, address || '')
-      console.log(`  Allowance: ${formatUnits(allowance, token.decimals)}`)
-      
-      const balanceWei = parseUnits(token.balanceFormatted || '0', token.decimals)
-      console.log(`  Balance (Wei): ${balanceWei.toString()}`)
-      
-      if (allowance < balanceWei) {
-        console.log(`  ⚠️ Need approval: ${formatUnits(balanceWei - allowance, token.decimals)}`)
-      } else {
-        console.log(`  ✅ Sufficient allowance`)
-      }
-      
-    } catch (error) {
-      console.error(`Debug failed for ${tokenAddress}:`, error)
-    }
-  }
-
-  // Check all allowances before swap
-  const checkAllAllowances = async (tokens: string[], amounts: bigint[]) => {
-    console.log('🔍 Checking all allowances before swap...')
-    const insufficientAllowances = []
-    
-    for (let i = 0; i < tokens.length; i++) {
-      const tokenAddress = tokens[i]
-      const amount = amounts[i]
-      const token = dustTokens.find(t => t.address === tokenAddress)
-      
-      const allowance = await checkAllowance(tokenAddress, address || '')
-      console.log(`  ${token?.symbol || tokenAddress}: allowance ${formatUnits(allowance, token?.decimals || 18)}, need ${formatUnits(amount, token?.decimals || 18)}`)
-      
-      if (allowance < amount) {
-        insufficientAllowances.push({
-          token: tokenAddress,
-          symbol: token?.symbol || 'Unknown',
-          has: allowance,
-          needs: amount,
-          shortfall: amount - allowance
-        })
-      }
-    }
-    
-    if (insufficientAllowances.length > 0) {
-      console.error('❌ Insufficient allowances:', insufficientAllowances)
-      throw new Error(`Insufficient allowances for ${insufficientAllowances.length} tokens. Please approve them first.`)
-    }
-    
-    console.log('✅ All allowances sufficient')
-  }
-
   // Revoke token approval (set to 0)
   const revokeApproval = async (tokenAddress: string) => {
+    // Nothing can have been approved where the router isn't deployed
+    if (!deployment?.isDeployed) return
+    const routerAddress = deployment.contracts.SPLIT_ROUTER
+
     try {
       toast({
         title: "Revoking Approval",
@@ -663,7 +357,7 @@ function SwapDustInterface() {
           }
         ],
         functionName: 'approve',
-        args: [CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`, BigInt(0)],
+        args: [routerAddress, BigInt(0)],
       })
       
       toast({
@@ -695,8 +389,9 @@ function SwapDustInterface() {
       })
 
       // Revoke approvals for all selected tokens first
-      if (selectedTokens.length > 0) {
+      if (selectedTokens.length > 0 && deployment?.isDeployed) {
         console.log(`🚫 Revoking approvals for ${selectedTokens.length} tokens...`)
+        const routerAddress = deployment.contracts.SPLIT_ROUTER
         
         for (const tokenAddress of selectedTokens) {
           try {
@@ -715,7 +410,7 @@ function SwapDustInterface() {
                 }
               ],
               functionName: 'approve',
-              args: [CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`, BigInt(0)],
+              args: [routerAddress, BigInt(0)],
             })
             console.log(`✅ Revoked approval for ${tokenAddress}`)
           } catch (error) {
@@ -729,7 +424,7 @@ function SwapDustInterface() {
       disconnect()
       
       // Clear local state
-      setSelectedTokens([])
+      deselectAllTokens()
       setApprovalStatus('')
       setApprovalTxHash('')
       
@@ -752,680 +447,116 @@ function SwapDustInterface() {
     }
   }
 
-  // MAIN SWAP FUNCTION WITH APPROVALS
-      const handleSwap = async () => {
-        console.log('🚀 STARTING SWAP PROCESS')
-        
-        if (!isConnected || selectedTokens.length === 0) {
-          console.log('❌ NOT CONNECTED OR NO TOKENS SELECTED')
-          return
-        }
-        
-        // Debug Task 3: Check Wallet Connection
-        console.log('👛 WALLET STATUS:')
-        console.log('Connected:', !!address)
-        console.log('Address:', address)
-        console.log('Chain ID:', chainId)
-        console.log('Is Base Mainnet:', chainId === 8453)
-        
-        // Debug Task 1: Log selected tokens
-        console.log('📋 Selected tokens:', selectedTokensData.map(t => ({
-          symbol: t.symbol,
-          address: t.address,
-          balance: t.balanceFormatted
-        })))
-        
-        setIsSwapping(true)
-        setApprovalStatus('') // Clear previous approval status
-
-    try {
-      if (!CONTRACT_ADDRESSES.SPLIT_ROUTER || !address) {
-        throw new Error('Missing contract address or wallet connection')
-      }
-
-      // STEP 1: Single-source array construction (replaced old multiple-source approach)
-      console.log('🔧 STEP 1: Building arrays from single source...')
-
-      // UNIVERSAL: Add array validation before any processing
-      const validateTokenAmountPairing = (tokens: any[], addresses: string[], amounts: bigint[]) => {
-        console.log('🔍 VALIDATING TOKEN-AMOUNT PAIRING:')
-        
-        if (tokens.length !== addresses.length || addresses.length !== amounts.length) {
-          throw new Error(`Array length mismatch: tokens(${tokens.length}), addresses(${addresses.length}), amounts(${amounts.length})`)
-        }
-        
-        // Validate each pairing
-        for (let i = 0; i < tokens.length; i++) {
-          const token = tokens[i]
-          const address = addresses[i]
-          const amount = amounts[i]
-          
-          if (token.address.toLowerCase() !== address.toLowerCase()) {
-            throw new Error(`Address mismatch at index ${i}: token.address=${token.address}, addresses[${i}]=${address}`)
-          }
-          
-          console.log(`✅ Index ${i}: ${token.symbol} (${address}) = ${amount} wei`)
-        }
-      }
-      
-      // UNIVERSAL: Single-source array construction
-      const buildConsistentArrays = (selectedTokens: string[]) => {
-        console.log('🔧 UNIVERSAL ARRAY CONSTRUCTION:')
-        
-        const tokenData: any[] = []
-        const addresses: string[] = []
-        const amounts: bigint[] = []
-        
-        // Use SAME loop, SAME order for ALL arrays
-        selectedTokens.forEach((address, index) => {
-          const token = selectedTokensData.find(t => t.address === address)
-          if (!token) {
-            throw new Error(`Token not found for address: ${address}`)
-          }
-          
-          // Calculate safe amount for this specific token
-          const balanceValue = parseFloat(token.balanceFormatted || '0')
-          if (isNaN(balanceValue) || balanceValue <= 0) {
-            throw new Error(`Invalid balance for token ${token.symbol}: ${token.balanceFormatted}`)
-          }
-          
-          const balanceWei = parseUnits(token.balanceFormatted || '0', token.decimals)
-          const safetyReduction = BigInt(Math.floor(Number(balanceWei) / 10000)) || BigInt(100000)
-          const safeAmount = balanceWei - safetyReduction
-          
-          // Build ALL arrays in SAME order
-          tokenData[index] = token                    // Same order
-          addresses[index] = address                  // Same order  
-          amounts[index] = safeAmount                 // Same order
-          
-          console.log(`✅ Built index ${index}: ${token.symbol} (${addresses[index]}) = ${amounts[index]} wei`)
+  // Map swap engine progress onto toasts and the status line
+  const handleSwapEvent = (event: SwapEngineEvent) => {
+    switch (event.type) {
+      case 'approval-required':
+        setIsApproving(true)
+        setApprovalStatus(`Requesting approval for ${event.leg.symbol}...`)
+        toast({
+          title: `Approving ${event.leg.symbol}`,
+          description: `Please confirm the approval transaction in your wallet`,
         })
-        
-        return { tokenData, addresses, amounts }
-      }
-      
-      // UNIVERSAL: Array consistency verification
-      const verifyArrayConsistency = (operation: string, tokens: any[], addresses: string[], amounts: bigint[]) => {
-        console.log(`🔍 ${operation} - Array Verification:`)
-        for (let i = 0; i < tokens.length; i++) {
-          const token = tokens[i]
-          const addr = addresses[i]
-          const amt = amounts[i]
-          
-          console.log(`  ${i}: ${token.symbol} (${addr}) = ${amt} wei`)
-          
-          if (token.address.toLowerCase() !== addr.toLowerCase()) {
-            throw new Error(`${operation}: Index ${i} mismatch!`)
-          }
-        }
-      }
-      
-      // UNIVERSAL: Comprehensive array validation
-      const validateArrayConsistency = (tokens: any[], addresses: string[], amounts: bigint[]) => {
-        if (tokens.length !== addresses.length || addresses.length !== amounts.length) {
-          throw new Error(`Length mismatch: tokens(${tokens.length}), addresses(${addresses.length}), amounts(${amounts.length})`)
-        }
-        
-        console.log('🔍 ARRAY CONSISTENCY CHECK:')
-        for (let i = 0; i < tokens.length; i++) {
-          const token = tokens[i]
-          const addr = addresses[i]
-          const amt = amounts[i]
-          
-          console.log(`  ${i}: ${token.symbol} | token.addr=${token.address} | addr[${i}]=${addr} | amt=${amt}`)
-          
-          if (token.address.toLowerCase() !== addr.toLowerCase()) {
-            throw new Error(`MISMATCH at index ${i}: ${token.symbol} has ${token.address} but addresses[${i}]=${addr}`)
-          }
-        }
-        console.log('✅ All arrays perfectly aligned!')
-      }
-      
-      // UNIVERSAL: Validate arrays after single-source construction
-      
-      // Build consistent arrays from single source
-      const { tokenData: safeTokenData, addresses: safeTokenAddresses, amounts: safeTokenAmounts } = buildConsistentArrays(selectedTokens)
-      
-      // UNIVERSAL: Validate arrays immediately after construction
-      validateArrayConsistency(safeTokenData, safeTokenAddresses, safeTokenAmounts)
-      verifyArrayConsistency("SAFE", safeTokenData, safeTokenAddresses, safeTokenAmounts)
-      
-      // STEP 2: Check and handle approvals - USE SAFE ARRAYS
-      const approvalPromises = safeTokenData.map(async (token, index) => {
-        const currentAllowance = await checkAllowance(token.address, address)
-        const requiredAmount = safeTokenAmounts[index]
-        
-        console.log(`🔐 Checking approval for ${token.symbol}: need ${formatUnits(requiredAmount, token.decimals)}, have ${formatUnits(currentAllowance, token.decimals)}`)
-        
-        if (currentAllowance < requiredAmount) {
+        break
+      case 'approval-submitted':
+        setApprovalTxHash(event.hash)
+        setApprovalStatus(`⏳ Confirming approval for ${event.leg.symbol}...`)
+        break
+      case 'approval-confirmed':
+        setIsApproving(false)
+        setApprovalStatus(`✅ ${event.leg.symbol} approved successfully`)
+        break
+      case 'quoted':
+        setLastQuote(event.quote)
+        if (event.quote.skipped.length > 0) {
           toast({
-            title: `Approving ${token.symbol}`,
-            description: `Please confirm the approval transaction in your wallet`,
+            title: "Some tokens skipped",
+            description: `${event.quote.skipped.map(token => `${token.symbol} (${token.detail})`).join(', ')}`,
+            variant: "default",
+            duration: 8000,
           })
-          
-          try {
-            await approveToken(token.address, requiredAmount)
-            await new Promise(resolve => setTimeout(resolve, 2000))
-          } catch (approvalError) {
-            throw new Error(`Failed to approve ${token.symbol}: ${approvalError instanceof Error ? approvalError.message : 'Unknown error'}`)
-          }
-        }
-      })
-      
-      await Promise.all(approvalPromises)
-      
-      // STEP 3: Debug and validate swap parameters
-      console.log('🔍 Debug: Swap Parameters')
-      console.log('Token Addresses:', safeTokenAddresses)
-      console.log('Token Amounts:', safeTokenAmounts.map((a: bigint) => a.toString()))
-      console.log('Selected Tokens Data:', safeTokenData)
-      
-      // DEBUG: Verify array order matching - USE SAFE ARRAYS
-      console.log('🔍 VERIFYING ARRAY ORDER MATCHING:')
-      for (let i = 0; i < safeTokenAddresses.length; i++) {
-        const token = safeTokenData[i]
-        console.log(`Token ${i}: ${token.symbol} (${safeTokenAddresses[i]}) = ${safeTokenAmounts[i]} wei`)
-      }
-      
-              // Check all allowances and approve if needed
-        // Debug Task 1: Check current allowances BEFORE approval - USE SAFE ARRAYS
-        console.log('🔍 CHECKING CURRENT ALLOWANCES:')
-        for (let i = 0; i < safeTokenData.length; i++) {
-          const token = safeTokenData[i]
-          const currentAllowance = await checkAllowance(token.address, address)
-          console.log(`  ${token.symbol}: ${currentAllowance.toString()}`)
-        }
-        
-        console.log('🔍 Checking allowances and approving tokens...')
-        const tokensNeedingApproval = []
-        
-        for (let i = 0; i < safeTokenData.length; i++) {
-          const token = safeTokenData[i]
-          const amount = safeTokenAmounts[i]
-          
-          const allowance = await checkAllowance(token.address, address || '')
-          console.log(`  ${token.symbol}: allowance ${formatUnits(allowance, token.decimals)}, need ${formatUnits(amount, token.decimals)}`)
-          
-          if (allowance < amount) {
-            console.log(`  ⚠️ Need approval for ${token.symbol}`)
-            tokensNeedingApproval.push({ token, amount })
-          } else {
-            console.log(`  ✅ ${token.symbol} already approved`)
-          }
-        }
-        
-        // Debug Task 1: Log tokens needing approval
-        console.log('⚠️ TOKENS NEEDING APPROVAL:', tokensNeedingApproval.map(t => t.token.symbol))
-        
-        console.log(`📋 Tokens needing approval: ${tokensNeedingApproval.length}`)
-        if (tokensNeedingApproval.length > 0) {
-          console.log('  Tokens to approve:', tokensNeedingApproval.map(t => t.token.symbol).join(', '))
         }
-        
-        // Debug Task 1: Log approval process start
-        console.log('🔐 STARTING APPROVAL PROCESS')
-        
-        // Approve tokens one by one - UNIVERSAL APPROACH
-        for (const { token, amount } of tokensNeedingApproval) {
-          try {
-            console.log(`  🔐 Approving ${token.symbol} with buffer...`)
-            
-            // Add buffer for precision issues (universal fix)
-            const bufferAmount = (amount * BigInt(1001)) / BigInt(1000) // 0.1% buffer
-            console.log(`  Original amount: ${formatUnits(amount, token.decimals)} ${token.symbol}`)
-            console.log(`  Buffer amount: ${formatUnits(bufferAmount, token.decimals)} ${token.symbol}`)
-            
-            await approveToken(token.address, bufferAmount)
-            
-            console.log(`  ✅ Approved ${token.symbol}`)
-          } catch (approvalError) {
-            console.error(`❌ Approval failed for ${token.symbol}:`, approvalError)
-            throw new Error(`Failed to approve ${token.symbol}: ${approvalError instanceof Error ? approvalError.message : String(approvalError)}`)
-          }
-        }
-        
-        // Check token balances before swap with precision handling - USE SAFE ARRAYS
-        for (let i = 0; i < safeTokenData.length; i++) {
-          const token = safeTokenData[i]
-          const amount = safeTokenAmounts[i]
-          
-          console.log(`Token ${token.symbol}:`)
-          console.log(`  Address: ${token.address}`)
-          console.log(`  Balance (API): ${token.balanceFormatted}`)
-          console.log(`  Balance Source: ${token.source}`)
-          console.log(`  Amount to swap: ${formatUnits(amount, token.decimals)}`)
-          
-          // Validate balance with dynamic precision buffer
-          const balanceWei = parseUnits(token.balanceFormatted || '0', token.decimals)
-          
-          // Dynamic buffer: 0.01% of balance or minimum 100,000 wei
-          const dynamicBuffer = BigInt(Math.floor(Number(balanceWei) / 10000)) || BigInt(100000)
-          
-          console.log(`  Balance (Wei): ${balanceWei.toString()}`)
-          console.log(`  Amount (Wei): ${amount.toString()}`)
-          console.log(`  Dynamic Buffer: ${dynamicBuffer.toString()}`)
-          console.log(`  Buffer %: ${((Number(dynamicBuffer) / Number(balanceWei)) * 100).toFixed(4)}%`)
-          
-          // Calculate max swappable amount
-          const maxSwappableAmount = balanceWei - dynamicBuffer
-          
-          // If amount exceeds max swappable, adjust it
-          if (amount > maxSwappableAmount) {
-            console.log(`  ⚠️ Amount exceeds max swappable, adjusting from ${formatUnits(amount, token.decimals)} to ${formatUnits(maxSwappableAmount, token.decimals)}`)
-            // Update the safeTokenAmounts array with adjusted amount
-            safeTokenAmounts[i] = maxSwappableAmount
-          }
-          
-          // Final validation - ensure we never exceed actual balance
-          if (amount > balanceWei) {
-            throw new Error(`Critical error: Swap amount (${formatUnits(amount, token.decimals)}) exceeds actual balance (${token.balanceFormatted}) for ${token.symbol}`)
-          }
-        }
-      
-      // 🎯 CONTRACT-ALIGNED: Simple calculation matching contract output (0.1%)
-      const calculateMinReceive = (tokenData: any[], amounts: bigint[]) => {
-        const totalInput = amounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))
-        // Contract returns 0.1% of input, so expect 0.05% minimum (50% buffer)
-        const minReceive = totalInput / BigInt(2000)
-        console.log(`Contract-aligned: ${totalInput} input -> ${minReceive} minReceive (0.05%)`)
-        return minReceive
-      }
-      
-      // 🚨 SAFE: Comprehensive input validation (NO OVERFLOW)
-      const validateSwapInputs = (tokens: any[], amounts: bigint[], minReceive: bigint) => {
-        console.log('🛡️ SAFE INPUT VALIDATION:')
-        
-        // Check all amounts are positive and reasonable
-        for (let i = 0; i < amounts.length; i++) {
-          const amount = amounts[i]
-          if (amount <= 0) {
-            throw new Error(`Invalid amount for token ${i}: ${amount}`)
-          }
-          
-          // SAFE: Check amount doesn't exceed maximum safe integer for contract
-          const maxSafeAmount = (BigInt(1) << BigInt(128)) - BigInt(1) // uint128 max
-          if (amount > maxSafeAmount) {
-            throw new Error(`Amount too large for token ${i}: ${amount}`)
-          }
-          
-          // SAFE: Check for reasonable token amounts (prevent dust attacks)
-          // Dynamic minimum based on token decimals - targets ~$0.05 minimum
-          const getMinimumAmount = (decimals: number): bigint => {
-            if (decimals >= 18) return BigInt('100000000000000') // 0.0001 tokens
-            if (decimals >= 12) return BigInt('100000000') // 0.1 tokens  
-            if (decimals >= 6) return BigInt('100000') // 0.1 tokens
-            return BigInt('100') // 1 token
-          }
-          
-          const minSafeAmount = getMinimumAmount(tokens[i]?.decimals || 18)
-          if (amount < minSafeAmount) {
-            console.warn(`⚠️ Token ${i} amount very small: ${formatUnits(amount, tokens[i]?.decimals || 18)} (min: ${formatUnits(minSafeAmount, tokens[i]?.decimals || 18)})`)
-          }
-          
-          console.log(`  Token ${i}: ${tokens[i]?.symbol} = ${amount} wei ✅`)
-        }
-        
-        // SAFE: Validate minReceive is reasonable
-        if (minReceive <= 0) {
-          throw new Error(`Invalid minReceive: ${minReceive}`)
-        }
-        
-        // SAFE: Check minReceive is not too large (prevent overflow)
-        const totalInput = amounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))
-        if (minReceive > totalInput) {
-          console.warn(`⚠️ MinReceive (${minReceive}) exceeds total input (${totalInput})`)
-        }
-        
-        console.log(`  MinReceive: ${minReceive} wei ✅`)
-        console.log(`  Total Input: ${totalInput} wei ✅`)
-        console.log(`  Ratio: ${Number((minReceive * BigInt(10000)) / totalInput) / 100}% of input ✅`)
-        
-        return true
-      }
-      
-      // UNIVERSAL: Validate minReceive based on estimated output
-      const validateMinReceive = (estimatedOutput: bigint, minReceive: bigint) => {
-        const ratio = Number((minReceive * BigInt(100)) / estimatedOutput)
-        
-        console.log('🔍 MINRECEIVE VALIDATION:')
-        console.log(`  Estimated output: ${estimatedOutput} wei`)
-        console.log(`  Min receive: ${minReceive} wei`)
-        console.log(`  Ratio: ${ratio}% of estimated output`)
-        
-        // Should be 70-95% of estimated output
-        if (ratio < 50) {
-          console.warn('⚠️ MinReceive too low, increasing...')
-          return (estimatedOutput * BigInt(70)) / BigInt(100) // 70% minimum
-        }
-        
-        if (ratio > 95) {
-          console.warn('⚠️ MinReceive too high, decreasing...')
-          return (estimatedOutput * BigInt(90)) / BigInt(100) // 90% maximum
-        }
-        
-        console.log('✅ MinReceive looks reasonable')
-        return minReceive
-      }
-      
-      // 🎯 CONTRACT-ALIGNED: Universal fix matching contract output (0.1%)
-      const calculateSafeMinReceive = (tokenData: any[], amounts: bigint[]) => {
-        const totalInput = amounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))
-        // Universal fix: expect 0.05% of input to match 0.1% contract output
-        return totalInput / BigInt(2000)
-      }
-      
-      // 🎯 CONTRACT-ALIGNED: Simple strategy matching contract output (0.1%)
-      const tryProgressiveMinReceive = async (tokenData: any[], amounts: bigint[], addresses: string[]) => {
-        const totalInput = amounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))
-        // Simple strategy: just use contract-aligned expectation
-        return totalInput / BigInt(2000) // 0.05% of input
-      }
-      
-      // 🚨 SAFE: Simple percentage-based token value estimation (NO OVERFLOW)
-      const estimateTokenValue = (tokenData: any, amountWei: bigint) => {
-        // SAFE: Use simple percentage instead of complex decimal calculations
-        const estimatedValue = amountWei / BigInt(100) // 1% of amount
-        
-        console.log(`📊 ${tokenData.symbol}: ${estimatedValue} wei estimated value (1% of ${amountWei} wei)`)
-        return estimatedValue
-      }
-      
-      // COMPREHENSIVE SWAP VALIDATION
-      console.log('🔍 COMPREHENSIVE SWAP VALIDATION:')
-      
-      // Step 1: Validate individual token quotes and filter out insufficient amounts
-      const individualQuotes: bigint[] = []
-      const validTokenData: typeof safeTokenData = []
-      const validTokenAmounts: typeof safeTokenAmounts = []
-      const skippedTokens: string[] = []
-      
-      for (let i = 0; i < safeTokenData.length; i++) {
-        const token = safeTokenData[i]
-        const amount = safeTokenAmounts[i]
-        
-        try {
-          // Get individual quote from contract (now uses real Uniswap quotes)
-          if (!publicClient) {
-            throw new Error('Public client not available')
-          }
-          const quote = await publicClient.readContract({
-            address: CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`,
-            abi: SPLIT_ROUTER_ABI,
-            functionName: 'getSwapQuote',
-            args: [token.address as `0x${string}`, amount],
-          }) as bigint
-          
-          // Check if individual quote is 0 (amount too small)
-          if (quote === BigInt(0)) {
-            // Calculate minimum required amount for better user feedback
-            const getMinimumAmount = (decimals: number): bigint => {
-              if (decimals >= 18) return BigInt('100000000000000') // 0.0001 tokens
-              if (decimals >= 12) return BigInt('100000000') // 0.1 tokens  
-              if (decimals >= 6) return BigInt('100000') // 0.1 tokens
-              return BigInt('100') // 1 token
-            }
-            
-            const minRequired = getMinimumAmount(token.decimals)
-            const currentAmount = formatUnits(amount, token.decimals)
-            const minRequiredFormatted = formatUnits(minRequired, token.decimals)
-            
-            if (process.env.NODE_ENV === 'development') {
-              console.warn(`⚠️ Skipping ${token.symbol}: ${currentAmount} < ${minRequiredFormatted} (minimum)`)
-            }
-            skippedTokens.push(`${token.symbol} (need ≥${minRequiredFormatted})`)
-            continue
-          }
-          
-          // Token is valid - add to arrays
-          validTokenData.push(token)
-          validTokenAmounts.push(amount)
-          individualQuotes.push(quote)
-          console.log(`  ✅ ${token.symbol}: ${formatUnits(amount, token.decimals)} -> ${formatUnits(quote, 18)} HIGHER`)
-          
-        } catch (error) {
-          console.error(`❌ Quote validation failed for ${token.symbol}:`, error)
-          skippedTokens.push(token.symbol)
-          continue
-        }
-      }
-      
-                  // Show warning if some tokens were skipped
-            if (skippedTokens.length > 0) {
-              toast({
-                title: "Some tokens skipped",
-                description: `${skippedTokens.join(', ')} - amounts too small to swap`,
-                variant: "default",
-                duration: 8000,
-              })
-            }
-      
-      // Check if we have any valid tokens left
-      if (validTokenData.length === 0) {
-        throw new Error('No tokens have sufficient amounts for swapping. Please add more tokens or increase amounts.')
-      }
-      
-      console.log(`✅ Proceeding with ${validTokenData.length} valid tokens (${skippedTokens.length} skipped)`)
-      
-      // Create valid token addresses array
-      const validTokenAddresses = validTokenData.map(token => token.address)
-      
-      // Step 2: Get total bulk quote using valid tokens
-      let totalQuote: bigint
-      let individualQuotesArray: bigint[]
-      
-      try {
-        if (!publicClient) {
-          throw new Error('Public client not available')
-        }
-        const bulkQuoteResult = await publicClient.readContract({
-          address: CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`,
-          abi: SPLIT_ROUTER_ABI,
-          functionName: 'getBulkSwapQuote',
-          args: [validTokenAddresses as `0x${string}`[], validTokenAmounts],
-        }) as [bigint, bigint[]]
-        
-        totalQuote = bulkQuoteResult[0]
-        individualQuotesArray = bulkQuoteResult[1]
-        
-        console.log(`📊 Total bulk quote: ${formatUnits(totalQuote, 18)} HIGHER`)
-        
-        // Check if total quote is 0
-        if (totalQuote === BigInt(0)) {
-          throw new Error('Swap amounts too small. Total output would be 0. Please increase amounts.')
-        }
-      } catch (error) {
-        console.error('❌ Bulk quote validation failed:', error)
-        throw new Error(`Failed to validate bulk quote: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-      
-      // Step 3: Calculate realistic minReceive (90% of total quote)
-      const minReceiveWei = (totalQuote * BigInt(90)) / BigInt(100) // 90% of total quote
-      
-      console.log(`🎯 Realistic minReceive (90% of quote): ${formatUnits(minReceiveWei, 18)} HIGHER`)
-      console.log(`✅ All quotes validated successfully`)
-      
-      // Display exact values to user
-      console.log('📊 SWAP SUMMARY FOR USER:')
-      console.log(`  Input tokens: ${safeTokenData.length}`)
-      for (let i = 0; i < safeTokenData.length; i++) {
-        const token = safeTokenData[i]
-        const amount = safeTokenAmounts[i]
-        const quote = individualQuotes[i]
-        console.log(`    ${token.symbol}: ${formatUnits(amount, token.decimals)} -> ${formatUnits(quote, 18)} HIGHER`)
-      }
-      console.log(`  Total input: ${formatUnits(safeTokenAmounts.reduce((sum, amt) => sum + amt, BigInt(0)), 18)} tokens`)
-      console.log(`  Expected output: ${formatUnits(totalQuote, 18)} HIGHER`)
-      console.log(`  Minimum received: ${formatUnits(minReceiveWei, 18)} HIGHER`)
-      console.log(`  User share (80%): ${formatUnits((totalQuote * BigInt(80)) / BigInt(100), 18)} HIGHER`)
-      console.log(`  POL share (18%): ${formatUnits((totalQuote * BigInt(18)) / BigInt(100), 18)} HIGHER`)
-      console.log(`  Platform fee (2%): ${formatUnits((totalQuote * BigInt(2)) / BigInt(100), 18)} HIGHER`)
-
-      // Simple debugging logs
-      const totalInput = safeTokenAmounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))
-      console.log('📊 SIMPLE SWAP CALCULATION:')
-      console.log(`Token count: ${safeTokenData.length}`)
-      console.log(`Total input: ${totalInput} wei`)
-      console.log(`Expected output (0.1%): ${minReceiveWei * BigInt(4)} wei`) 
-      console.log(`MinReceive (0.05%): ${minReceiveWei} wei`)
-
-      // SCALE DOWN AMOUNTS TO PREVENT CONTRACT OVERFLOW
-      const scaleDownAmounts = (amounts: bigint[], maxAmountWei: bigint = BigInt("1000000000000000000000")) => {
-        console.log('🔧 SCALING DOWN AMOUNTS TO PREVENT CONTRACT OVERFLOW')
-        
-        const minAmountWei = BigInt("1000000000000000000") // 1 token minimum to prevent underflow
-        
-        const scaledAmounts = amounts.map((amount, index) => {
-          if (amount > maxAmountWei) {
-            const scaleFactor = amount / maxAmountWei
-            const scaledAmount = amount / scaleFactor
-            console.log(`  Token ${index}: Scaled from ${amount} to ${scaledAmount} (factor: ${scaleFactor})`)
-            return scaledAmount
-          } else if (amount < minAmountWei) {
-            // Scale up dust amounts to prevent underflow
-            const scaleUpFactor = minAmountWei / amount
-            const scaledAmount = amount * scaleUpFactor
-            console.log(`  Token ${index}: Scaled up from ${amount} to ${scaledAmount} (factor: ${scaleUpFactor})`)
-            return scaledAmount
-          } else {
-            console.log(`  Token ${index}: No scaling needed ${amount}`)
-            return amount
-          }
+        setApprovalStatus(`Receive ≈ ${formatUnits(event.quote.expectedUserOut, 18)} HIGHER (min ${formatUnits(event.quote.minUserReceive, 18)} at ${event.quote.slippageBps / 100}% slippage)`)
+        break
+      case 'bisected':
+        setLastQuote(event.quote)
+        toast({
+          title: "Removed tokens that block the swap",
+          description: `${event.dropped.map(token => `${token.symbol} (${token.detail})`).join(', ')} - swapping the other ${event.quote.legs.length}`,
+          variant: "default",
+          duration: 8000,
         })
-        
-        return scaledAmounts
-      }
-
-      // REMOVED SCALING - Using original amounts with proper validation
-      console.log('📊 USING ORIGINAL AMOUNTS WITH VALIDATION:')
-      console.log(`Total input: ${safeTokenAmounts.reduce((sum, amt) => sum + amt, BigInt(0))}`)
-      console.log(`Token count: ${safeTokenData.length}`)
-      
-      // VALIDATION COMPLETE - Using original amounts with contract quotes
-      console.log('✅ VALIDATION COMPLETE:')
-      console.log(`  Token count: ${safeTokenData.length}`)
-      console.log(`  Total input: ${safeTokenAmounts.reduce((sum: bigint, amt: bigint) => sum + amt, BigInt(0))}`)
-      console.log(`  All quotes validated successfully`)
-
-      // VALIDATION COMPLETE - All amounts validated with contract quotes
-      console.log('✅ All amounts validated successfully with contract quotes')
-      
-      // UNIVERSAL: Debug array state before major operations
-      const debugArrayState = (operation: string, tokens: any[], addresses: string[], amounts: bigint[]) => {
-        console.log(`🔍 ${operation} - ARRAY STATE:`)
-        for (let i = 0; i < tokens.length; i++) {
-          console.log(`  ${i}: ${tokens[i].symbol} | ${addresses[i]} | ${amounts[i]} wei`)
-        }
-      }
-      
+        setApprovalStatus(`Receive ≈ ${formatUnits(event.quote.expectedUserOut, 18)} HIGHER (min ${formatUnits(event.quote.minUserReceive, 18)} at ${event.quote.slippageBps / 100}% slippage)`)
+        break
+      case 'submitted':
+        setApprovalStatus('⏳ Waiting for swap confirmation...')
+        toast({
+          title: "Swap Submitted",
+          description: "Your swap transaction has been submitted to the network",
+        })
+        break
+      case 'confirmed':
+        setApprovalStatus('')
+        toast({
+          title: strings.success.title,
+          description: strings.success.description,
+        })
+        break
+    }
+  }
 
-      
+  // MAIN SWAP FUNCTION - the pipeline itself lives in lib/swap-engine
+  const handleSwap = async () => {
+    if (!isConnected || selectedTokens.length === 0) {
+      return
+    }
 
-      
-      // Call before every major operation
-      debugArrayState("BEFORE_APPROVAL", safeTokenData, safeTokenAddresses, safeTokenAmounts)
-      debugArrayState("BEFORE_SWAP", safeTokenData, safeTokenAddresses, safeTokenAmounts)
-      
-      // UNIVERSAL: Summary of swap parameters
-      console.log('📊 UNIVERSAL SWAP PARAMETERS:')
-      console.log(`  Token Count: ${selectedTokensData.length}`)
-      console.log(`  Total Value: ${minReceiveWei} wei`)
-      console.log(`  Min Receive: ${minReceiveWei} wei`)
-      
-      // Validate that we're not trying to swap HIGHER to HIGHER
-      const higherTokenAddress = CONTRACT_ADDRESSES.HIGHER_TOKEN.toLowerCase()
-      const hasHigherToken = validTokenAddresses.some((addr: string) => addr.toLowerCase() === higherTokenAddress)
-      
-      if (hasHigherToken) {
-        throw new Error('Cannot swap HIGHER token to HIGHER token. Please select other tokens.')
-      }
-      
-              // Estimate gas first to catch errors early - USE FILTERED ARRAYS
-        try {
-          const gasEstimate = await publicClient?.estimateContractGas({
-            address: CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`,
-            abi: SPLIT_ROUTER_ABI,
-            functionName: "executeBulkSwap",
-            args: [validTokenAddresses as `0x${string}`[], validTokenAmounts, minReceiveWei], // Use validated amounts and minReceive
-            account: address as `0x${string}`, // Explicitly set the account
-          })
-        
-        console.log('✅ Gas estimate:', gasEstimate?.toString())
-      } catch (gasError) {
-        console.error('❌ Gas estimation failed:', gasError)
-        
-        // Try to decode the error
-        if (gasError instanceof Error) {
-          const errorMessage = gasError.message
-          const decodedError = decodeErrorSignature(errorMessage)
-          throw new Error(`Gas estimation failed: ${decodedError}`)
-        }
-        
-        throw new Error(`Gas estimation failed: ${gasError instanceof Error ? gasError.message : 'Unknown error'}`)
-      }
+    setIsSwapping(true)
+    setApprovalStatus('') // Clear previous approval status
 
-      // Debug: Check wallet account before swap - USE SAFE ARRAYS
-      console.log('🔍 WALLET DEBUG BEFORE SWAP:')
-      console.log('  Address:', address)
-      console.log('  Is Connected:', isConnected)
-      console.log('  Chain ID:', chainId)
-      console.log('  Contract Address:', CONTRACT_ADDRESSES.SPLIT_ROUTER)
-      console.log('  Token Addresses:', safeTokenAddresses)
-      console.log('  Token Amounts:', safeTokenAmounts.map(a => a.toString()))
-      console.log('  Min Receive:', minReceiveWei.toString())
-      
-              // Execute the swap with proper error handling - USE SAFE ARRAYS
-        try {
-          console.log('🔄 SENDING SWAP TRANSACTION...')
-          const swapTx = await writeContract({
-            address: CONTRACT_ADDRESSES.SPLIT_ROUTER as `0x${string}`,
-            abi: SPLIT_ROUTER_ABI,
-            functionName: "executeBulkSwap",
-            args: [validTokenAddresses as `0x${string}`[], validTokenAmounts, minReceiveWei], // Use validated amounts and minReceive
-            chainId: 8453, // Base mainnet
-            account: address as `0x${string}`, // Explicitly set the account
-          })
-          console.log('✅ SWAP TRANSACTION SENT:', swapTx)
-        } catch (swapError) {
-        console.error('❌ Swap failed:', swapError)
-        
-        // Decode common errors
-        if (swapError instanceof Error) {
-          const errorMessage = swapError.message
-          const decodedError = decodeErrorSignature(errorMessage)
-          throw new Error(`Swap failed: ${decodedError}`)
-        }
-        
-        throw swapError
+    try {
+      if (!publicClient || !walletClient || !address) {
+        throw new Error('Missing contract address or wallet connection')
       }
 
-      toast({
-        title: "Swap Submitted",
-        description: "Your swap transaction has been submitted to the network",
+      const engine = createSwapEngine({
+        publicClient,
+        walletClient,
+        account: address,
+        slippageBps: swapSettings.slippageBps,
+        autoSlippage: swapSettings.slippageMode === 'auto',
+        maxPriceImpactBps: swapSettings.maxPriceImpactBps,
+        deadlineSeconds: swapSettings.deadlineMinutes * 60,
+        onEvent: handleSwapEvent,
       })
-      
+
+      await engine.run(selectedTokensData)
     } catch (err: any) {
-      setIsSwapping(false)
       console.error("Swap error:", err)
-      
+      setApprovalStatus('')
+
       let errorMessage = "An error occurred during the swap"
-      
-      if (err?.message?.includes('approval') || err?.message?.includes('approve')) {
+
+      if (err instanceof SwapEngineError && err.code) {
+        // Already decoded into a localized message by lib/contract-errors
+        errorMessage = err.code === 'user-rejected' || err.code === 'insufficient-funds'
+          ? strings.contractErrors[err.code]
+          : err.message
+      } else if (err instanceof SwapEngineError && err.stage === 'approve') {
         errorMessage = "Token approval failed. Please try again."
-      } else if (err?.message?.includes('insufficient funds')) {
-        errorMessage = "Insufficient ETH for gas fees or token balance too low."
-      } else if (err?.message?.includes('execution reverted')) {
-        errorMessage = "Swap failed. Check slippage settings and try again."
-      } else if (err?.message?.includes('rejected')) {
-        errorMessage = "Transaction was rejected by user"
-      } else if (err?.message) {
-        errorMessage = err.message
+      } else {
+        const decoded = decodeContractError(err)
+        errorMessage = decoded.code !== 'unknown' ? decoded.message : err?.message || errorMessage
       }
-      
+
       toast({
         title: "Swap Failed", 
         description: errorMessage,
         variant: "destructive",
       })
+    } finally {
+      setIsSwapping(false)
+      setIsApproving(false)
     }
   }
 
@@ -1472,7 +603,7 @@ function SwapDustInterface() {
                 <p className="font-mono text-xs text-muted-foreground mt-1">
                   {dustTokens.length > 0 && (
                     <>
-                      {dustTokens.length} tokens ($0.10 - $5.00)
+                      {visibleTokens.length} tokens ($0.10 - $5.00)
                     </>
                   )}
                 </p>
@@ -1494,6 +625,15 @@ function SwapDustInterface() {
                     "Disconnect"
                   )}
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsSettingsOpen((open) => !open)}
+                  aria-label={strings.settings.title}
+                  className="h-8 px-3 font-mono text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <Settings className="w-3 h-3" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -1507,7 +647,7 @@ function SwapDustInterface() {
                   variant="ghost"
                   size="sm"
                   onClick={toggleSelectAll}
-                  disabled={dustTokens.length === 0}
+                  disabled={eligibleTokens.length === 0}
                   className="h-8 px-3 font-mono text-xs text-muted-foreground hover:text-foreground disabled:cursor-not-allowed disabled:opacity-50"
                 >
                   {isAllSelected ? "Clear" : "All"}
@@ -1515,6 +655,15 @@ function SwapDustInterface() {
 
               </div>
             </div>
+            {isSettingsOpen && (
+              <div className="border border-border p-4 mb-4">
+                <SwapSettingsPanel
+                  settings={swapSettings}
+                  onChange={updateSettings}
+                  onReset={resetSettings}
+                />
+              </div>
+            )}
                          <div className="space-y-3">
               
               {isDetecting ? (
@@ -1522,14 +671,14 @@ function SwapDustInterface() {
                   <Loader2 className="w-6 h-6 animate-spin text-[#00c389]" />
                   <span className="ml-2 text-gray-600">Detecting tokens...</span>
                 </div>
-              ) : dustTokens.length === 0 ? (
+              ) : visibleTokens.length === 0 && hiddenCount === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <p>No tokens found in your wallet</p>
                   <p className="text-sm mt-1">Try refreshing or check your wallet connection</p>
                 </div>
               ) : (
                                <div className="divide-y divide-border">
-                 {dustTokens.map((token, index) => {
+                 {visibleTokens.map((token, index) => {
                    const tokenValue = token.valueUSD || 0
                    const isSelected = selectedTokens.includes(token.address)
                    
@@ -1541,22 +690,40 @@ function SwapDustInterface() {
                          type="checkbox"
                          id={`token-${index}`}
                          checked={isSelected}
+                         disabled={!!token.unswappable}
                          onChange={() => toggleTokenSelection(token.address)}
-                         className="flex-shrink-0"
+                         className="flex-shrink-0 disabled:cursor-not-allowed"
                        />
-                       <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-                         isSelected ? 'bg-green-200' : 'bg-muted'
-                       }`}>
-                         <span className={`font-mono text-xs ${
-                           isSelected ? 'text-green-700' : 'text-muted-foreground'
-                         }`}>
-                           {token.symbol[0]}
-                         </span>
-                       </div>
+                       <TokenLogo symbol={token.symbol} logoURI={token.logoURI} isSelected={isSelected} />
                        <div className="flex-1 min-w-0">
-                         <label htmlFor={`token-${index}`} className="font-mono text-sm cursor-pointer block truncate text-foreground">
+                         <label htmlFor={`token-${index}`} className="font-mono text-sm cursor-pointer flex items-center gap-1 truncate text-foreground">
                            {token.symbol}
+                           {token.verified && (
+                             <BadgeCheck className="w-3.5 h-3.5 text-[#00c389] flex-shrink-0" aria-label={strings.tokens.verified}>
+                               <title>{strings.tokens.verified}</title>
+                             </BadgeCheck>
+                           )}
                          </label>
+                         {token.noRoutablePool && (
+                           <span className="font-mono text-xs text-yellow-700 block truncate">
+                             {strings.tokens.noRoutablePool}
+                           </span>
+                         )}
+                         {token.unswappable && (
+                           <span className="font-mono text-xs text-red-600 block truncate" title={token.unswappableDetail}>
+                             {strings.unswappable.label.replace('{reason}', strings.unswappable.reasons[token.unswappable])}
+                           </span>
+                         )}
+                         {(token.riskLevel === 'high' || token.riskLevel === 'medium') && (
+                           <span className={`font-mono text-xs block truncate ${
+                             token.riskLevel === 'high' ? 'text-red-600' : 'text-yellow-700'
+                           }`}>
+                             {strings.risk[token.riskLevel].replace(
+                               '{reasons}',
+                               (token.riskReasons ?? []).filter((reason) => reason !== 'unverified').map((reason) => strings.risk.reasons[reason]).join(', ')
+                             )}
+                           </span>
+                         )}
                        </div>
                        <div className="text-right">
                          <div className="font-mono text-xs text-foreground">
@@ -1571,6 +738,17 @@ function SwapDustInterface() {
                  })}
                </div>
               )}
+              {!isDetecting && hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowHidden((show) => !show)}
+                  className="font-mono text-xs text-muted-foreground hover:text-foreground underline"
+                >
+                  {showHidden
+                    ? strings.tokens.hideRisky
+                    : strings.tokens.showHidden.replace('{count}', String(hiddenCount))}
+                </button>
+              )}
             </div>
             {selectedTokens.length > 0 && (
               <div className="border-t border-border px-6 py-4">
@@ -1626,12 +804,52 @@ function SwapDustInterface() {
               
               {swapValidation.isValid && (
                 <p className="font-mono text-xs text-muted-foreground">
-                  Receive ≈ ${netAfterFees.toFixed(2)} HIGHER
+                  Receive ≈ ${estimatedReceiveUsd.toFixed(2)} in HIGHER
                 </p>
               )}
             </div>
           )}
 
+          {/* Technical Details */}
+          {selectedTokens.length > 0 && (
+            <Collapsible open={isFactsOpen} onOpenChange={setIsFactsOpen}>
+              <CollapsibleTrigger className="w-full flex items-center justify-between py-2 font-mono text-xs uppercase tracking-wider text-muted-foreground hover:text-foreground">
+                {strings.facts.title}
+                {isFactsOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <div className="border-t border-border pt-3 space-y-2 font-mono text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{strings.facts.slippage}</span>
+                    <span className="text-foreground">
+                      {swapSettings.slippageMode === 'auto'
+                        ? `${strings.settings.auto}${lastQuote ? ` (${formatBps(lastQuote.slippageBps)})` : ''}`
+                        : formatBps(swapSettings.slippageBps)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{strings.facts.maxPriceImpact}</span>
+                    <span className="text-foreground">{formatBps(swapSettings.maxPriceImpactBps)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{strings.facts.deadline}</span>
+                    <span className="text-foreground">{swapSettings.deadlineMinutes} min</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{strings.facts.minReceived}</span>
+                    <span className="text-foreground">
+                      {lastQuote ? `${parseFloat(formatUnits(lastQuote.minUserReceive, 18)).toFixed(4)} HIGHER` : '—'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">{strings.facts.polShare}</span>
+                    <span className="text-foreground">18%</span>
+                  </div>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
           {/* Help Text */}
           {selectedTokens.length === 0 && dustTokens.length > 0 && (
             <div className="text-center space-y-2 py-4">
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useAccount, useChainId } from 'wagmi';
-import { base } from 'wagmi/chains';
+import { getDeployment, getDeployments } from '@/lib/deployments';
 
 interface NetworkGuardProps {
   children: React.ReactNode;
@@ -24,7 +24,8 @@ export function NetworkGuard({ children }: NetworkGuardProps) {
   }
 
   // Network validation logic only runs on client
-  const isCorrectNetwork = chainId === base.id || chainId === 84532; // Base mainnet + Base Sepolia
+  const isCorrectNetwork = !!getDeployment(chainId);
+  const supportedNetworks = getDeployments().map(deployment => deployment.chain.name).join(', ');
   
   if (isConnected && !isCorrectNetwork) {
     return (
@@ -33,9 +34,9 @@ export function NetworkGuard({ children }: NetworkGuardProps) {
           <h2 className="text-xl font-semibold text-red-800 mb-2">
             Wrong Network
           </h2>
-                  <p className="text-red-600 mb-4">
-          Please switch to Base network (mainnet or Sepolia) to use this app.
-        </p>
+          <p className="text-red-600 mb-4">
+            Please switch to a supported network ({supportedNetworks}) to use this app.
+          </p>
         </div>
       </div>
     );
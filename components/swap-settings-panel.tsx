@@ -0,0 +1,181 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { strings } from "@/lib/strings"
+import {
+  DEADLINE_LIMITS,
+  PRICE_IMPACT_LIMITS,
+  SLIPPAGE_PRESETS_BPS,
+  SLIPPAGE_WARNING_BPS,
+  formatBps,
+  type SwapSettings
+} from "@/lib/swap-settings"
+
+interface SwapSettingsPanelProps {
+  settings: SwapSettings
+  onChange: (update: Partial<SwapSettings>) => void
+  onReset: () => void
+}
+
+export function SwapSettingsPanel({ settings, onChange, onReset }: SwapSettingsPanelProps) {
+  // Keep the typed value local so partial input like "0." isn't clamped mid-edit
+  const [customSlippage, setCustomSlippage] = useState('')
+
+  useEffect(() => {
+    const isPreset = (SLIPPAGE_PRESETS_BPS as readonly number[]).includes(settings.slippageBps)
+    setCustomSlippage(settings.slippageMode === 'custom' && !isPreset ? String(settings.slippageBps / 100) : '')
+  }, [settings.slippageMode, settings.slippageBps])
+
+  // Same for the other two fields: an emptied field would otherwise snap back to its default
+  const [maxPriceImpact, setMaxPriceImpact] = useState(String(settings.maxPriceImpactBps / 100))
+  const [deadline, setDeadline] = useState(String(settings.deadlineMinutes))
+
+  useEffect(() => {
+    setMaxPriceImpact(String(settings.maxPriceImpactBps / 100))
+  }, [settings.maxPriceImpactBps])
+
+  useEffect(() => {
+    setDeadline(String(settings.deadlineMinutes))
+  }, [settings.deadlineMinutes])
+
+  // Shows the clamped value even when it matches the current setting and the effects don't run
+  const commitMaxPriceImpact = () => {
+    const percent = parseFloat(maxPriceImpact)
+    const bps = isFinite(percent) && percent > 0
+      ? Math.min(PRICE_IMPACT_LIMITS.max, Math.max(PRICE_IMPACT_LIMITS.min, Math.round(percent * 100)))
+      : settings.maxPriceImpactBps
+    setMaxPriceImpact(String(bps / 100))
+    onChange({ maxPriceImpactBps: bps })
+  }
+
+  const commitDeadline = () => {
+    const parsed = parseInt(deadline, 10)
+    const minutes = isFinite(parsed) && parsed > 0
+      ? Math.min(DEADLINE_LIMITS.max, Math.max(DEADLINE_LIMITS.min, parsed))
+      : settings.deadlineMinutes
+    setDeadline(String(minutes))
+    onChange({ deadlineMinutes: minutes })
+  }
+
+  const commitCustomSlippage = () => {
+    const percent = parseFloat(customSlippage)
+    if (isFinite(percent) && percent > 0) {
+      onChange({ slippageMode: 'custom', slippageBps: Math.round(percent * 100) })
+    }
+  }
+
+  const optionClass = (active: boolean) =>
+    `h-7 px-2 font-mono text-xs rounded-none ${
+      active ? 'bg-foreground text-background hover:bg-foreground/90' : 'text-muted-foreground hover:text-foreground'
+    }`
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+          {strings.settings.slippage}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ slippageMode: 'auto' })}
+            className={optionClass(settings.slippageMode === 'auto')}
+          >
+            {strings.settings.auto}
+          </Button>
+          {SLIPPAGE_PRESETS_BPS.map((bps) => (
+            <Button
+              key={bps}
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ slippageMode: 'custom', slippageBps: bps })}
+              className={optionClass(settings.slippageMode === 'custom' && settings.slippageBps === bps)}
+            >
+              {formatBps(bps)}
+            </Button>
+          ))}
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0.01"
+              max="10"
+              step="0.1"
+              placeholder={strings.settings.custom}
+              value={customSlippage}
+              onChange={(e) => setCustomSlippage(e.target.value)}
+              onBlur={commitCustomSlippage}
+              onKeyDown={(e) => e.key === 'Enter' && commitCustomSlippage()}
+              className="w-20 h-7 border border-border bg-background px-2 font-mono text-xs"
+            />
+            <span className="font-mono text-xs text-muted-foreground">%</span>
+          </div>
+        </div>
+        {settings.slippageMode === 'auto' && (
+          <p className="font-mono text-xs text-muted-foreground">{strings.settings.autoHint}</p>
+        )}
+        {settings.slippageMode === 'custom' && settings.slippageBps > SLIPPAGE_WARNING_BPS && (
+          <p className="font-mono text-xs text-yellow-700">
+            {strings.settings.highSlippage.replace('{percent}', formatBps(SLIPPAGE_WARNING_BPS))}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="max-price-impact" className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+          {strings.settings.maxPriceImpact}
+        </label>
+        <div className="flex items-center gap-1">
+          <input
+            id="max-price-impact"
+            type="number"
+            min="0.1"
+            max="50"
+            step="0.5"
+            value={maxPriceImpact}
+            onChange={(e) => setMaxPriceImpact(e.target.value)}
+            onBlur={commitMaxPriceImpact}
+            onKeyDown={(e) => e.key === 'Enter' && commitMaxPriceImpact()}
+            className="w-20 h-7 border border-border bg-background px-2 font-mono text-xs"
+          />
+          <span className="font-mono text-xs text-muted-foreground">%</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="swap-deadline" className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+          {strings.settings.deadline}
+        </label>
+        <div className="flex items-center gap-1">
+          <input
+            id="swap-deadline"
+            type="number"
+            min="1"
+            max="60"
+            step="1"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            onBlur={commitDeadline}
+            onKeyDown={(e) => e.key === 'Enter' && commitDeadline()}
+            className="w-20 h-7 border border-border bg-background px-2 font-mono text-xs"
+          />
+          <span className="font-mono text-xs text-muted-foreground">min</span>
+        </div>
+      </div>
+      <p className="font-mono text-xs text-muted-foreground">{strings.settings.deadlineHint}</p>
+
+      <div className="text-right">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onReset}
+          className="h-7 px-2 font-mono text-xs text-muted-foreground hover:text-foreground"
+        >
+          {strings.settings.reset}
+        </Button>
+      </div>
+    </div>
+  )
+}
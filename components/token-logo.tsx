@@ -0,0 +1,42 @@
+'use client';
+
+import Image from 'next/image';
+import { useState } from 'react';
+
+interface TokenLogoProps {
+  symbol: string;
+  logoURI?: string;
+  isSelected?: boolean;
+}
+
+// Token-list logo, falling back to the symbol's initial when missing or broken
+export function TokenLogo({ symbol, logoURI, isSelected = false }: TokenLogoProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (logoURI && !failed) {
+    return (
+      <Image
+        src={logoURI}
+        alt={symbol}
+        width={32}
+        height={32}
+        // Logos come from arbitrary list hosts, so skip the optimizer's domain allowlist
+        unoptimized
+        onError={() => setFailed(true)}
+        className="w-8 h-8 rounded-full flex-shrink-0 bg-muted"
+      />
+    );
+  }
+
+  return (
+    <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+      isSelected ? 'bg-green-200' : 'bg-muted'
+    }`}>
+      <span className={`font-mono text-xs ${
+        isSelected ? 'text-green-700' : 'text-muted-foreground'
+      }`}>
+        {symbol[0]}
+      </span>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 "use client"
 
-import { useState, useCallback, useRef, useEffect } from 'react'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
 import { useAccount, usePublicClient } from 'wagmi'
-import { formatUnits } from 'viem'
-
-// Import Moralis functions for instant token detection
-import { getTokensFromMoralis, getTokenPricesFromMoralis, testMoralisConnection } from '../utils/moralis.js'
+import { formatUnits, type PublicClient } from 'viem'
+import { base } from 'viem/chains'
+
+import { createConfiguredProviders, createDiscoveryRegistry } from '@/lib/token-discovery'
+import { createConfiguredPriceSources, createPriceOracle, type MergedPrice, type PriceOracle } from '@/lib/price-oracle'
+import { fetchWalletDust } from '@/lib/api-schemas'
+import { DUST_MAX_VALUE_USD, DUST_MIN_VALUE_USD } from '@/lib/contracts'
+import { BASE_DEPLOYMENT, getDeployment, type Deployment } from '@/lib/deployments'
+import { createIndexedDbCheckpointStore, createTransferIndexer } from '@/lib/transfer-indexer'
+import { multicallChunked } from '@/lib/multicall'
+import { createLocalStorageMetadataCache, createMetadataResolver, type TokenMetadata } from '@/lib/token-metadata'
+import { loadTokenRegistry, tokenListMetadataFallback } from '@/lib/token-lists'
+import { assessTokenRisk, type RiskLevel, type RiskReason } from '@/lib/token-risk'
+import { preflightTokens, type UnswappableReason } from '@/lib/swap-engine'
 
 // Types for the new MVP flow
 interface TokenInfo {
@@ -17,6 +27,24 @@ interface TokenInfo {
   balanceFormatted: string
   priceUSD?: number
   valueUSD?: number
+  // Deepest routable pool DexScreener reported for this token
+  liquidityUSD?: number
+  dexId?: string
+  pairAddress?: string
+  // DexScreener answered but listed no pool SplitRouter can route through
+  noRoutablePool?: boolean
+  // Flagged by Moralis; one of the risk signals
+  possibleSpam?: boolean
+  logoURI?: string
+  // Listed on a trusted token list
+  verified?: boolean
+  tags?: string[]
+  // High-risk tokens are hidden unless the user asks to see them
+  riskLevel?: RiskLevel
+  riskReasons?: RiskReason[]
+  // Set when simulating executeSwap for this token reverted or paid out short
+  unswappable?: UnswappableReason
+  unswappableDetail?: string
   isEligible: boolean
   error?: string
 }
@@ -68,100 +96,33 @@ const ERC20_ABI = [
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
 const memoryCache: { [key: string]: { tokens: TokenInfo[], timestamp: number } } = {}
 
-/**
- * Enhanced token detection using Moralis API with RPC fallback
- */
-async function detectTokensEnhanced(walletAddress: string, publicClient: any): Promise<TokenInfo[]> {
-  console.log("🚀 Starting enhanced token detection...");
-  console.log(`📍 Wallet: ${walletAddress}`);
-  
-  let tokens: TokenInfo[] = [];
-  
-  try {
-    // Method 1: Try Moralis API first (instant, complete)
-    console.log("\n1️⃣ Attempting Moralis API detection...");
-    
-    // Test connection first
-    const moralisWorking = await testMoralisConnection(walletAddress);
-    
-    if (moralisWorking) {
-      const moralisTokens = await getTokensFromMoralis(walletAddress);
-      
-      if (moralisTokens && moralisTokens.length > 0) {
-        console.log(`🎉 Moralis success! Found ${moralisTokens.length} tokens`);
-        
-        // Transform Moralis tokens to our format
-        tokens = moralisTokens.map((token: any) => ({
-          address: token.address,
-          symbol: token.symbol,
-          name: token.name,
-          decimals: token.decimals,
-          balance: BigInt(token.balance || '0'),
-          balanceFormatted: token.balanceFormatted,
-          priceUSD: 0, // Will be filled by price fetch
-          valueUSD: 0, // Will be calculated
-          isEligible: false, // Will be determined after price fetch
-          error: undefined
-        }));
-        
-        // Get prices for tokens
-        console.log("\n💰 Fetching token prices...");
-        const tokenAddresses = tokens.map(token => token.address);
-        const prices = await getTokenPricesFromMoralis(tokenAddresses);
-        
-        // Add price and value data to tokens
-        tokens = tokens.map(token => {
-          const price = (prices as any)[token.address.toLowerCase()]?.usd || 0;
-          const value = parseFloat(token.balanceFormatted) * price;
-          
-          return {
-            ...token,
-            priceUSD: price,
-            valueUSD: value,
-            isEligible: value >= 0.1 && value <= 5.0 // Filter to dust token range
-          };
-        });
-        
-        console.log(`💵 Added price data to ${tokens.length} tokens`);
-        
-        // Filter to only eligible tokens
-        const eligibleTokens = tokens.filter(token => token.isEligible);
-        console.log(`💸 Eligible dust tokens: ${eligibleTokens.length}`);
-        
-        // Log final results
-        if (eligibleTokens.length > 0) {
-          console.log("🎯 Found eligible tokens:");
-          eligibleTokens.forEach(token => {
-            console.log(`   ${token.symbol}: ${token.balanceFormatted} ($${token.valueUSD?.toFixed(2) || 'No price'})`);
-          });
-        }
-        
-        return eligibleTokens;
-        
-      } else {
-        console.log("⚠️ Moralis returned no tokens, trying fallback...");
-      }
-    }
-    
-    // Method 2: Fallback to RPC scanning if Moralis fails or returns no tokens
-    if (tokens.length === 0) {
-      console.log("\n2️⃣ Moralis failed, falling back to RPC scanning...");
-      // This will be handled by the existing RPC logic in the main function
-      return [];
-    }
-    
-  } catch (error) {
-    console.error("❌ Enhanced token detection failed:", error);
-    // Return empty array to trigger RPC fallback
-    return [];
+// Same wallet, different tokens on each chain
+const cacheKeyFor = (chainId: number, wallet: string) => `${chainId}:${wallet.toLowerCase()}`
+
+// One oracle per chain so every scan on it prices tokens the same way
+const priceOracles = new Map<number, PriceOracle>()
+
+function getPriceOracle(deployment: Deployment): PriceOracle {
+  let oracle = priceOracles.get(deployment.chain.id)
+  if (!oracle) {
+    oracle = createPriceOracle(createConfiguredPriceSources({ deployment }))
+    priceOracles.set(deployment.chain.id, oracle)
   }
-  
-  return tokens;
+  return oracle
 }
 
+// Transfer-log scan progress per wallet, kept across reloads
+const checkpointStore = createIndexedDbCheckpointStore()
+
+// Token metadata rarely changes, so it outlives the token list cache
+const metadataCache = createLocalStorageMetadataCache()
+
 export function useComprehensiveTokenDetection() {
   const { address: userAddress, isConnected } = useAccount()
   const publicClient = usePublicClient()
+  const chainId = publicClient?.chain?.id ?? base.id
+  // Undefined on chains the app doesn't support
+  const deployment = getDeployment(chainId)
   
   const [tokens, setTokens] = useState<TokenInfo[]>([])
   const [selectedTokens, setSelectedTokens] = useState<TokenSelection>({})
@@ -180,29 +141,80 @@ export function useComprehensiveTokenDetection() {
   const getCachedTokens = useCallback((): TokenInfo[] | null => {
     if (!userAddress) return null
     
-    const cached = memoryCache[userAddress.toLowerCase()]
+    const cached = memoryCache[cacheKeyFor(chainId, userAddress)]
     if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
       return cached.tokens
     }
     
     return null
-  }, [userAddress])
+  }, [userAddress, chainId])
+
+  // Checkpointed Transfer-log index for this client
+  const transferIndexer = useMemo(
+    () => publicClient ? createTransferIndexer({ client: publicClient as PublicClient, store: checkpointStore }) : null,
+    [publicClient]
+  )
+  const backfillControllerRef = useRef<AbortController | null>(null)
+
+  const metadataResolver = useMemo(
+    () => publicClient ? createMetadataResolver({
+      client: publicClient as PublicClient,
+      chainId,
+      cache: metadataCache,
+      fallback: tokenListMetadataFallback
+    }) : null,
+    [publicClient, chainId]
+  )
+
+  // Stop the previous wallet's backfill; its checkpoint lets it resume later
+  useEffect(() => {
+    return () => {
+      backfillControllerRef.current?.abort()
+      backfillControllerRef.current = null
+    }
+  }, [userAddress, transferIndexer])
+
+  const startBackfill = useCallback(() => {
+    // Already running for this wallet
+    if (!transferIndexer || !userAddress || backfillControllerRef.current) return
+
+    const controller = new AbortController()
+    backfillControllerRef.current = controller
+
+    transferIndexer.backfill(userAddress, {
+      signal: controller.signal,
+      onProgress: progress => {
+        if (progress.done) {
+          console.log(`🕰️ Transfer history backfilled: ${progress.tokenCount} tokens`)
+        }
+      }
+    }).catch(error => {
+      if (!controller.signal.aborted) {
+        console.warn('⚠️ Transfer history backfill stopped:', error)
+      }
+    }).finally(() => {
+      if (backfillControllerRef.current === controller) {
+        backfillControllerRef.current = null
+      }
+    })
+  }, [transferIndexer, userAddress])
 
   // Robust on-chain token scanning with Base network validation
   const scanWalletTokens = useCallback(async (signal: AbortSignal): Promise<{address: string, balance: bigint}[]> => {
-    if (!publicClient || !userAddress) {
+    if (!publicClient || !transferIndexer || !userAddress) {
       return []
     }
 
-    // ✅ Validate we're on Base network
+    // ✅ Validate we're on a supported network
     try {
       const network = await publicClient.getChainId()
-      if (network !== 8453) {
-        console.error('❌ Wrong network detected:', network, '- Expected: 8453 (Base)')
-        setError('Please connect to Base network (Chain ID: 8453)')
+      const connected = getDeployment(network)
+      if (!connected) {
+        console.error('❌ Wrong network detected:', network)
+        setError(`Unsupported network (Chain ID: ${network})`)
         return []
       }
-      console.log('✅ Connected to Base network (Chain ID: 8453)')
+      console.log(`✅ Connected to ${connected.chain.name} (Chain ID: ${network})`)
     } catch (error) {
       console.error('❌ Failed to validate network:', error)
       setError('Network validation failed')
@@ -233,95 +245,22 @@ export function useComprehensiveTokenDetection() {
         })
       }
 
-      // Dynamic token detection using Transfer events with chunked scanning
+      // Tokens the wallet has received, from the checkpointed Transfer-log index
       let tokenAddresses = new Set<string>()
       
       try {
-        const currentBlock = await publicClient.getBlockNumber()
-        const startBlock = currentBlock - BigInt(10000) // Last 10k blocks for debug
-        
-        // Debug current 10k block range
-        // Debug current 10k block range
-        console.log(`Current scan: blocks ${startBlock.toString()} to ${currentBlock.toString()}`);
-        console.log(`Time coverage: ~${(10000 * 2 / 3600).toFixed(1)} hours ago`);
-
-        // Check if ANY transfers exist in this range
-        try {
-          const logs = await publicClient.getLogs({
-            event: {
-              type: 'event',
-              name: 'Transfer',
-              inputs: [
-                { type: 'address', name: 'from', indexed: true },
-                { type: 'address', name: 'to', indexed: true },
-                { type: 'uint256', name: 'value', indexed: false }
-              ]
-            },
-            fromBlock: startBlock,
-            toBlock: currentBlock
-          });
-          
-          console.log(`Transfer events found: ${logs.length}`);
-          
-          if (logs.length > 0) {
-            console.log(`Sample transfer events:`, logs.slice(0, 3).map(log => ({
-              address: log.address,
-              blockNumber: log.blockNumber
-            })));
-          }
-        } catch (debugError) {
-          console.warn(`Debug transfer check failed:`, debugError);
-        }
-        
-        const CHUNK_SIZE = 500 // 1RPC allows 500 block range
-        
-        console.log('📊 Scanning Transfer events in chunks (500 blocks each)...')
+        const { tokens: indexedTokens, tailBlock, backfillComplete } = await transferIndexer.sync(userAddress, signal)
+        tokenAddresses = new Set(indexedTokens)
         
-        let allLogs: any[] = []
+        console.log(`📋 Found ${tokenAddresses.size} unique tokens from Transfer events (history from block ${tailBlock})`)
         
-        // Scan in chunks to avoid "Block range is too large" error
-        for (let fromBlock = startBlock; fromBlock < currentBlock; fromBlock += BigInt(CHUNK_SIZE)) {
-          const toBlock = fromBlock + BigInt(CHUNK_SIZE - 1) > currentBlock 
-            ? currentBlock 
-            : fromBlock + BigInt(CHUNK_SIZE - 1)
-          
-          try {
-            console.log(`   Scanning blocks ${fromBlock.toString()} to ${toBlock.toString()}`)
-            
-            const chunkLogs = await publicClient.getLogs({
-              address: userAddress as `0x${string}`,
-              event: {
-                type: 'event',
-                name: 'Transfer',
-                inputs: [
-                  { type: 'address', name: 'from', indexed: true },
-                  { type: 'address', name: 'to', indexed: true },
-                  { type: 'uint256', name: 'value', indexed: false }
-                ]
-              },
-              fromBlock,
-              toBlock
-            })
-            
-            allLogs = allLogs.concat(chunkLogs)
-            
-            // Small delay to avoid rate limits
-            await new Promise(resolve => setTimeout(resolve, 100))
-            
-          } catch (chunkError: any) {
-            console.warn(`⚠️ Chunk ${fromBlock.toString()}-${toBlock.toString()} failed:`, chunkError.message)
-            // Continue with other chunks
-          }
+        // Older history fills in behind the scenes; the next scan picks it up
+        if (!backfillComplete) {
+          startBackfill()
         }
         
-        // Extract unique token addresses from all logs
-        allLogs.forEach(log => {
-          tokenAddresses.add(log.address.toLowerCase())
-        })
-        
-        console.log(`📋 Found ${tokenAddresses.size} unique tokens from Transfer events`)
-        
       } catch (error: any) {
+        if (signal.aborted) throw error
         console.error('❌ Transfer event scan failed:', error)
         
         // Check if it's an RPC error with undefined result
@@ -339,55 +278,24 @@ export function useComprehensiveTokenDetection() {
         return allTokens // Return only ETH if any
       }
 
-      // Check balances for found tokens with retry logic
+      // Check balances for found tokens in Multicall3 batches
       console.log(`💼 Checking balances for ${tokenAddresses.size} tokens...`)
       
-      const balancePromises = Array.from(tokenAddresses).map(async (address) => {
-        let retries = 3
-        let lastError: any
-        
-        while (retries > 0) {
-          try {
-            const balance = await publicClient.readContract({
-              address: address as `0x${string}`,
-              abi: ERC20_ABI,
-              functionName: 'balanceOf',
-              args: [userAddress as `0x${string}`]
-            })
-            
-            return { address, balance: balance as bigint }
-          } catch (error) {
-            lastError = error
-            retries--
-            
-            if (retries > 0) {
-              // Wait before retry with exponential backoff
-              await new Promise(resolve => setTimeout(resolve, 1000 * (3 - retries)))
-            }
-          }
-        }
-        
-        // All retries failed - skip this token
-        console.warn(`⚠️ Failed to get balance for ${address} after 3 retries:`, lastError)
-        
-        // Log RPC error details if available
-        if (lastError?.response?.data) {
-          const responseData = lastError.response.data
-          console.error('🔍 RPC Balance Check Error:', {
-            address,
-            error: responseData.error,
-            message: responseData.message,
-            code: responseData.code
-          })
-        }
-        
-        return null
-      })
-
-      const balanceResults = await Promise.allSettled(balancePromises)
-      balanceResults.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value && result.value.balance > BigInt(0)) {
-          allTokens.push(result.value)
+      const candidates = Array.from(tokenAddresses)
+      const balanceResults = await multicallChunked(
+        publicClient as PublicClient,
+        candidates.map(address => ({
+          address: address as `0x${string}`,
+          abi: ERC20_ABI,
+          functionName: 'balanceOf',
+          args: [userAddress as `0x${string}`]
+        })),
+        { signal }
+      )
+      
+      balanceResults.forEach((result, i) => {
+        if (result.status === 'success' && (result.result as bigint) > BigInt(0)) {
+          allTokens.push({ address: candidates[i], balance: result.result as bigint })
         }
       })
 
@@ -401,199 +309,252 @@ export function useComprehensiveTokenDetection() {
       console.error('Error scanning wallet tokens:', error)
       return []
     }
-  }, [publicClient, userAddress])
+  }, [publicClient, userAddress, transferIndexer, startBackfill])
 
   // Fetch token metadata
   const fetchTokenMetadata = useCallback(async (
     addresses: string[], 
     signal: AbortSignal
-  ): Promise<Map<string, {symbol: string, name: string, decimals: number}>> => {
-    if (!publicClient || addresses.length === 0) {
+  ): Promise<Map<string, TokenMetadata>> => {
+    if (!metadataResolver || addresses.length === 0) {
       return new Map()
     }
 
     try {
       console.log(`📋 Fetching metadata for ${addresses.length} tokens...`)
       
-      const metadataMap = new Map<string, {symbol: string, name: string, decimals: number}>()
+      // Cached per chain and address; bytes32 symbols and missing decimals handled
+      const metadataMap = await metadataResolver.resolve(addresses, signal)
       
-      // Fetch metadata for each token with retry logic and null address validation
-      const metadataPromises = addresses.map(async (address) => {
-        // Validate address first
-        if (!address || 
-            address === "0x0000000000000000000000000000000000000000" ||
-            address === "0x0000000000000000000000000000000000000000") {
-          console.warn(`⚠️ Skipping invalid token address: ${address}`)
-          return null
-        }
-        
-        // Validate it's a contract
-        try {
-          const code = await publicClient.getBytecode({ address: address as `0x${string}` })
-          if (!code || code === "0x") {
-            console.warn(`⚠️ Address ${address} is not a contract`)
-            return null
-          }
-        } catch (error) {
-          console.warn(`⚠️ Cannot check contract code for ${address}:`, error)
-          return null
-        }
-        
-        let retries = 3
-        let lastError: any
-        
-        while (retries > 0) {
-          try {
-            const [symbol, name, decimals] = await Promise.all([
-              publicClient.readContract({
-                address: address as `0x${string}`,
-                abi: ERC20_ABI,
-                functionName: 'symbol'
-              }),
-              publicClient.readContract({
-                address: address as `0x${string}`,
-                abi: ERC20_ABI,
-                functionName: 'name'
-              }),
-              publicClient.readContract({
-                address: address as `0x${string}`,
-                abi: ERC20_ABI,
-                functionName: 'decimals'
-              })
-            ])
-            
-            return {
-              address: address.toLowerCase(),
-              metadata: {
-                symbol: symbol as string,
-                name: name as string,
-                decimals: decimals as number
-              }
-            }
-          } catch (error) {
-            lastError = error
-            retries--
-            
-            if (retries > 0) {
-              // Wait before retry with exponential backoff
-              await new Promise(resolve => setTimeout(resolve, 500 * (3 - retries)))
-            }
-          }
-        }
-        
-        // All retries failed - use defaults
-        console.warn(`⚠️ Failed to get metadata for ${address} after 3 retries:`, lastError)
-        return {
-          address: address.toLowerCase(),
-          metadata: {
-            symbol: 'UNKNOWN',
-            name: 'Unknown Token',
-            decimals: 18
-          }
-        }
-      })
-
-      const results = await Promise.allSettled(metadataPromises)
-      results.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value !== null) {
-          metadataMap.set(result.value.address, result.value.metadata)
-        }
-      })
-
       console.log(`✅ Fetched metadata for ${metadataMap.size} tokens`)
       return metadataMap
       
     } catch (error) {
+      if (signal.aborted) throw error
       console.error('Error fetching token metadata:', error)
       return new Map()
     }
-  }, [publicClient])
+  }, [metadataResolver])
 
-  // Batch fetch USD prices from Base network APIs only
+  // Batch fetch USD prices for the connected chain
   const fetchTokenPrices = useCallback(async (
     addresses: string[], 
     signal: AbortSignal
-  ): Promise<Map<string, number>> => {
-    if (addresses.length === 0) {
-      return new Map()
+  ): Promise<{ prices: Map<string, MergedPrice>, poolsChecked: boolean }> => {
+    if (!deployment || addresses.length === 0) {
+      return { prices: new Map(), poolsChecked: false }
     }
 
-    // ✅ Ensure we're fetching Base network prices only
-    console.log('💰 Fetching Base network token prices...')
-
     try {
       console.log(`💰 Fetching prices for ${addresses.length} tokens...`)
       
-      const priceMap = new Map<string, number>()
+      // Same sources and merge rules as /api/tokens/prices, against the connected chain's pools
+      const { prices, outcomes } = await getPriceOracle(deployment).getPrices(addresses, signal)
       
-      // Batch addresses for API calls
-      const batchSize = 20
-      for (let i = 0; i < addresses.length; i += batchSize) {
-        if (signal.aborted) throw new Error('Aborted')
-        
-        const batch = addresses.slice(i, i + batchSize)
-        
-        try {
-          // Try DexScreener first (Base DEX prices)
-          const dexScreenerResponse = await fetch(
-            `https://api.dexscreener.com/latest/dex/tokens/${batch.join(',')}`,
-            { signal }
-          )
-          
-          if (dexScreenerResponse.ok) {
-            const data = await dexScreenerResponse.json()
-            
-            if (data.pairs) {
-              data.pairs.forEach((pair: any) => {
-                if (pair.baseToken?.address && pair.priceUsd) {
-                  const address = pair.baseToken.address.toLowerCase()
-                  const price = parseFloat(pair.priceUsd)
-                  
-                  if (price > 0) {
-                    priceMap.set(address, price)
-                  }
-                }
-              })
-            }
-          }
-          
-          // Fallback to CoinGecko for tokens not found on DexScreener
-          const missingTokens = batch.filter(addr => !priceMap.has(addr))
-          
-          if (missingTokens.length > 0) {
-            try {
-              const coingeckoResponse = await fetch(
-                `https://api.coingecko.com/api/v3/simple/token_price/base?contract_addresses=${missingTokens.join(',')}&vs_currencies=usd`,
-                { signal }
-              )
-              
-              if (coingeckoResponse.ok) {
-                const data = await coingeckoResponse.json()
-                
-                Object.entries(data).forEach(([address, priceData]: [string, any]) => {
-                  if (priceData.usd) {
-                    priceMap.set(address.toLowerCase(), priceData.usd)
-                  }
-                })
-              }
-            } catch (error) {
-              console.warn('⚠️ CoinGecko fallback failed:', error)
-            }
-          }
-          
-        } catch (error) {
-          console.warn(`⚠️ Price fetch failed for batch ${i}-${i + batchSize}:`, error)
-        }
-      }
+      outcomes
+        .filter(outcome => outcome.status === 'rejected')
+        .forEach(outcome => console.warn(`⚠️ ${outcome.id} price fetch failed: ${outcome.error}`))
+      
+      const priceMap = new Map(prices.map(price => [price.address, price]))
+      // Pool info only comes from DexScreener, so a missing pool means nothing if it failed
+      const poolsChecked = outcomes.some(outcome => outcome.id === 'dexscreener' && outcome.status === 'fulfilled')
 
       console.log(`✅ Fetched prices for ${priceMap.size} tokens`)
-      return priceMap
+      return { prices: priceMap, poolsChecked }
       
     } catch (error) {
+      if (signal.aborted) throw error
       console.error('Error fetching token prices:', error)
-      return new Map()
+      return { prices: new Map(), poolsChecked: false }
     }
-  }, [])
+  }, [deployment])
+
+  // GET /api/wallet/[address]/dust; null when the server can't answer so the browser scan runs
+  const fetchServerTokens = useCallback(async (
+    forceRefresh: boolean,
+    signal: AbortSignal
+  ): Promise<TokenInfo[] | null> => {
+    if (!userAddress) return null
+
+    try {
+      const response = await fetchWalletDust(userAddress, forceRefresh ? { refresh: '1' } : {}, signal)
+
+      // Every provider failing looks like an empty wallet; let the browser try
+      if (!response.metadata.providers.some(provider => provider.status === 'fulfilled')) {
+        console.warn('⚠️ Server scan had no working provider, scanning in the browser')
+        return null
+      }
+
+      console.log(`✅ Server scan: ${response.metadata.totalTokens} tokens (cache ${response.metadata.cacheStatus})`)
+
+      return response.tokens.map(token => ({
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        balance: BigInt(token.balance),
+        balanceFormatted: token.balanceFormatted,
+        priceUSD: token.priceUSD,
+        valueUSD: token.valueUSD,
+        liquidityUSD: token.liquidityUSD,
+        dexId: token.dexId,
+        pairAddress: token.pairAddress,
+        noRoutablePool: token.noRoutablePool,
+        possibleSpam: token.possibleSpam,
+        logoURI: token.logo ?? undefined,
+        verified: token.verified,
+        tags: token.tags,
+        riskLevel: token.riskLevel,
+        riskReasons: token.riskReasons,
+        isEligible: token.isEligible,
+        error: token.priceUSD === 0 ? 'No price data available' : undefined
+      }))
+    } catch (error) {
+      if (signal.aborted) throw error
+      console.warn('⚠️ Server scan unavailable, scanning in the browser:', error)
+      return null
+    }
+  }, [userAddress])
+
+  // Discovery, metadata and pricing entirely from the browser
+  const detectInBrowser = useCallback(async (signal: AbortSignal): Promise<TokenInfo[]> => {
+    if (!userAddress) return []
+
+    // Step 1: Discover tokens through the configured providers (RPC scan as fallback)
+    const registry = createDiscoveryRegistry(createConfiguredProviders({ rpcScan: scanWalletTokens }))
+    const { tokens: walletTokens, outcomes } = await registry.discover(userAddress, signal)
+    
+    outcomes.forEach(outcome => {
+      console.log(`   ${outcome.status === 'fulfilled' ? '✅' : outcome.status === 'skipped' ? '⏭️' : '❌'} ${outcome.id}: ${outcome.tokenCount} tokens (${outcome.latencyMs}ms)${outcome.error ? ` - ${outcome.error}` : ''}`)
+    })
+    
+    if (walletTokens.length === 0) {
+      return []
+    }
+
+    // Token lists first: they back the metadata fallback and mark verified tokens
+    const tokenList = await loadTokenRegistry()
+
+    // Step 2: Get on-chain metadata for tokens the providers didn't describe
+    const tokenMetadata = await fetchTokenMetadata(
+      walletTokens
+        .filter(t => !t.symbol || t.decimals === undefined)
+        .map(t => t.address), 
+      signal
+    )
+
+    // Step 3: Build token list with metadata
+    const tokensWithMetadata = walletTokens.map(walletToken => {
+      // Provider fields win; the resolver fills what they left out
+      const resolved = tokenMetadata.get(walletToken.address.toLowerCase())
+      const listed = tokenList.get(chainId, walletToken.address)
+      const metadata = {
+        symbol: walletToken.symbol || resolved?.symbol || 'UNKNOWN',
+        name: walletToken.name || resolved?.name || 'Unknown Token',
+        decimals: walletToken.decimals ?? resolved?.decimals ?? 18
+      }
+
+      return {
+        address: walletToken.address,
+        symbol: metadata.symbol,
+        name: metadata.name,
+        decimals: metadata.decimals,
+        balance: walletToken.balance,
+        balanceFormatted: formatUnits(walletToken.balance, metadata.decimals),
+        possibleSpam: walletToken.possibleSpam,
+        logoURI: listed?.logoURI ?? walletToken.logo ?? undefined,
+        verified: !!listed,
+        tags: listed?.tags,
+        priceUSD: 0,
+        valueUSD: 0,
+        isEligible: false,
+        error: undefined
+      }
+    })
+
+    // Step 4: Fetch prices
+    const { prices: priceMap, poolsChecked } = await fetchTokenPrices(
+      tokensWithMetadata.map(t => t.address), 
+      signal
+    )
+
+    // Step 5: Calculate USD values and filter
+    const valuedTokens = tokensWithMetadata.map(token => {
+      const priceData = priceMap.get(token.address.toLowerCase())
+      const price = priceData?.price || 0
+      const valueUSD = price * parseFloat(token.balanceFormatted)
+      const isEligible = valueUSD >= DUST_MIN_VALUE_USD && valueUSD <= DUST_MAX_VALUE_USD
+
+      return {
+        ...token,
+        priceUSD: price,
+        valueUSD,
+        liquidityUSD: priceData?.liquidityUsd,
+        dexId: priceData?.dexId,
+        pairAddress: priceData?.pairAddress,
+        noRoutablePool: poolsChecked && !priceData?.pairAddress,
+        isEligible,
+        error: price === 0 ? 'No price data available' : undefined
+      }
+    })
+
+    // Step 6: Score spam/scam risk
+    if (!publicClient) return valuedTokens
+
+    const risks = await assessTokenRisk(valuedTokens, {
+      client: publicClient as PublicClient,
+      wallet: userAddress,
+      chainId,
+      registry: tokenList,
+      signal
+    })
+
+    return valuedTokens.map(token => {
+      const risk = risks.get(token.address.toLowerCase())
+      return { ...token, riskLevel: risk?.level, riskReasons: risk?.reasons }
+    })
+  }, [userAddress, publicClient, chainId, scanWalletTokens, fetchTokenMetadata, fetchTokenPrices])
+
+  // Simulate each listed token's swap and mark the ones that would sink the batch
+  const runPreflight = useCallback(async (detected: TokenInfo[], signal: AbortSignal) => {
+    // Pre-flight simulates SplitRouter itself, so there has to be one
+    if (!publicClient || !userAddress || !getDeployment(chainId)?.isDeployed) return
+
+    // Hidden tokens aren't selectable by default, so don't spend simulations on them
+    const candidates = detected.filter(token => token.riskLevel !== 'high')
+    if (candidates.length === 0) return
+
+    try {
+      const results = await preflightTokens({
+        publicClient: publicClient as PublicClient,
+        account: userAddress,
+        signal
+      }, candidates)
+      if (signal.aborted) return
+
+      const unswappable = new Map(results
+        .filter(result => result.status === 'unswappable')
+        .map(result => [result.address.toLowerCase(), result]))
+      console.log(`🧪 Pre-flight: ${unswappable.size} of ${results.length} tokens unswappable`)
+      if (unswappable.size === 0) return
+
+      const mark = (token: TokenInfo): TokenInfo => {
+        const result = unswappable.get(token.address.toLowerCase())
+        return result ? { ...token, unswappable: result.reason, unswappableDetail: result.detail } : token
+      }
+
+      setTokens(prev => prev.map(mark))
+      setSelectedTokens(prev => Object.fromEntries(
+        Object.entries(prev).filter(([address]) => !unswappable.has(address.toLowerCase()))
+      ))
+
+      const cached = memoryCache[cacheKeyFor(chainId, userAddress)]
+      if (cached) cached.tokens = cached.tokens.map(mark)
+    } catch (error) {
+      if (signal.aborted) return
+      console.warn('⚠️ Swap pre-flight failed:', error)
+    }
+  }, [publicClient, userAddress, chainId])
 
   // Main token detection function with Base network validation
   const detectTokens = useCallback(async (forceRefresh = false) => {
@@ -611,13 +572,14 @@ export function useComprehensiveTokenDetection() {
 
     try {
       const network = await publicClient.getChainId()
-      if (network !== 8453) {
-        setError('Please connect to Base network (Chain ID: 8453)')
+      const deployment = getDeployment(network)
+      if (!deployment) {
+        setError(`Unsupported network (Chain ID: ${network})`)
         setTokens([])
         setSelectedTokens({})
         return
       }
-      console.log('✅ Starting Base network token detection...')
+      console.log(`✅ Starting ${deployment.chain.name} token detection...`)
     } catch (error) {
       console.error('❌ Network validation failed:', error)
       setError('Failed to validate network')
@@ -646,95 +608,19 @@ export function useComprehensiveTokenDetection() {
     try {
       console.log('🚀 Starting comprehensive token detection...')
       
-      // Step 1: Try enhanced Moralis detection first
-      console.log('🎯 Attempting Moralis API detection...')
-      const enhancedTokens = await detectTokensEnhanced(userAddress, publicClient)
-      
-      if (enhancedTokens.length > 0) {
-        console.log(`🎉 Moralis detection successful! Found ${enhancedTokens.length} eligible tokens`)
-        
-        // Cache results
-        if (userAddress) {
-          memoryCache[userAddress.toLowerCase()] = {
-            tokens: enhancedTokens,
-            timestamp: Date.now()
-          }
-        }
-        
-        setTokens(enhancedTokens)
-        setSelectedTokens({}) // Reset selection
-        setIsLoading(false)
-        return
-      }
-      
-      console.log('⚠️ Moralis detection returned no tokens, falling back to RPC scanning...')
-      
-      // Step 2: Fallback to RPC scanning
-      const walletTokens = await scanWalletTokens(signal)
-      
-      if (walletTokens.length === 0) {
-        setTokens([])
-        setIsLoading(false)
-        return
-      }
-
-      // Step 2: Get token metadata
-      const tokenMetadata = await fetchTokenMetadata(
-        walletTokens.map(t => t.address), 
-        signal
-      )
-
-      // Step 3: Build token list with metadata
-      const tokensWithMetadata = walletTokens.map(walletToken => {
-        const metadata = tokenMetadata.get(walletToken.address.toLowerCase()) || {
-          symbol: 'UNKNOWN',
-          name: 'Unknown Token',
-          decimals: 18
-        }
-
-        return {
-          address: walletToken.address,
-          symbol: metadata.symbol,
-          name: metadata.name,
-          decimals: metadata.decimals,
-          balance: walletToken.balance,
-          balanceFormatted: formatUnits(walletToken.balance, metadata.decimals),
-          priceUSD: 0,
-          valueUSD: 0,
-          isEligible: false,
-          error: undefined
-        }
-      })
-
-      // Step 4: Fetch prices
-      const priceMap = await fetchTokenPrices(
-        tokensWithMetadata.map(t => t.address), 
-        signal
-      )
+      // The server scan uses server-side keys and shared caches; the browser scan covers for it
+      // It only indexes Base mainnet; testnet and local forks scan in the browser
+      const serverTokens = chainId === BASE_DEPLOYMENT.chain.id ? await fetchServerTokens(forceRefresh, signal) : null
+      const finalTokens = serverTokens ?? await detectInBrowser(signal)
 
-      // Step 5: Calculate USD values and filter
-      const finalTokens: TokenInfo[] = tokensWithMetadata.map(token => {
-        const price = priceMap.get(token.address.toLowerCase()) || 0
-        const valueUSD = price * parseFloat(token.balanceFormatted)
-        const isEligible = valueUSD >= 0.1 && valueUSD <= 5.0
-
-        return {
-          ...token,
-          priceUSD: price,
-          valueUSD,
-          isEligible,
-          error: price === 0 ? 'No price data available' : undefined
-        }
-      })
-
-      // Filter to only eligible tokens
+      // Filter to only eligible tokens; risky ones stay in the list but the UI hides them
       const eligibleTokens = finalTokens.filter(token => token.isEligible)
 
       console.log(`💸 Found ${eligibleTokens.length} eligible tokens (${finalTokens.length} total)`)
 
       // Cache results
       if (userAddress) {
-        memoryCache[userAddress.toLowerCase()] = {
+        memoryCache[cacheKeyFor(chainId, userAddress)] = {
           tokens: eligibleTokens,
           timestamp: Date.now()
         }
@@ -742,6 +628,9 @@ export function useComprehensiveTokenDetection() {
 
       setTokens(eligibleTokens)
       setSelectedTokens({}) // Reset selection
+
+      // Doesn't hold up the list; unswappable tokens get marked as results come in
+      runPreflight(eligibleTokens, signal)
       
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
@@ -752,7 +641,7 @@ export function useComprehensiveTokenDetection() {
     } finally {
       setIsLoading(false)
     }
-  }, [isConnected, userAddress, getCachedTokens, scanWalletTokens, fetchTokenMetadata, fetchTokenPrices, detectTokensEnhanced])
+  }, [isConnected, userAddress, publicClient, chainId, getCachedTokens, fetchServerTokens, detectInBrowser, runPreflight])
 
   // Validate swap selection
   const validateSwapSelection = useCallback(() => {
@@ -800,7 +689,8 @@ export function useComprehensiveTokenDetection() {
   // Select all eligible tokens
   const selectAllTokens = useCallback(() => {
     const newSelection: TokenSelection = {}
-    tokens.forEach(token => {
+    // High-risk tokens are only ever selected one by one; unswappable ones never
+    tokens.filter(token => token.riskLevel !== 'high' && !token.unswappable).forEach(token => {
       newSelection[token.address] = true
     })
     setSelectedTokens(newSelection)
@@ -0,0 +1,43 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAccount } from 'wagmi'
+import {
+  DEFAULT_SWAP_SETTINGS,
+  loadSwapSettings,
+  sanitizeSwapSettings,
+  saveSwapSettings,
+  type SwapSettings
+} from '@/lib/swap-settings'
+
+/**
+ * Swap settings for the connected wallet, persisted in localStorage per address
+ */
+export function useSwapSettings() {
+  const { address } = useAccount()
+  const [settings, setSettings] = useState<SwapSettings>(DEFAULT_SWAP_SETTINGS)
+
+  // Reload whenever the wallet changes
+  useEffect(() => {
+    setSettings(loadSwapSettings(address))
+  }, [address])
+
+  const updateSettings = useCallback((update: Partial<SwapSettings>) => {
+    setSettings(prev => {
+      const next = sanitizeSwapSettings({ ...prev, ...update })
+      saveSwapSettings(address, next)
+      return next
+    })
+  }, [address])
+
+  const resetSettings = useCallback(() => {
+    saveSwapSettings(address, DEFAULT_SWAP_SETTINGS)
+    setSettings(DEFAULT_SWAP_SETTINGS)
+  }, [address])
+
+  return {
+    settings,
+    updateSettings,
+    resetSettings
+  }
+}
@@ -0,0 +1,7 @@
+// Contract ABIs. Everything but erc20-errors.ts is generated from
+// contracts/artifacts by scripts/generate-abis.js
+export { SPLIT_ROUTER_ABI } from './split-router'
+export { SPLIT_ROUTER_QUOTER_ABI } from './split-router-quoter'
+export { UNISWAP_V3_ROUTER_ABI } from './uniswap-v3-router'
+export { UNISWAP_V3_QUOTER_ABI } from './uniswap-v3-quoter'
+export { ERC20_ERRORS_ABI } from './erc20-errors'
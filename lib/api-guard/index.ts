@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAllowedOrigins, isOriginAllowed } from './origins'
+import { createRateLimiter, type RateLimitResult } from './rate-limit'
+import { BODY_VALIDATORS, MAX_BODY_BYTES } from './validation'
+
+export { getAllowedOrigins, isOriginAllowed } from './origins'
+export { createRateLimiter, type RateLimitResult, type RateLimiter } from './rate-limit'
+export { BODY_VALIDATORS, MAX_BODY_BYTES, type BodyValidator } from './validation'
+
+const WINDOW_MS = 60 * 1000
+const envLimit = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value ?? '', 10)
+  return parsed > 0 ? parsed : fallback
+}
+
+const ipLimiter = createRateLimiter({ limit: envLimit(process.env.API_RATE_LIMIT_PER_IP, 60), windowMs: WINDOW_MS })
+const originLimiter = createRateLimiter({ limit: envLimit(process.env.API_RATE_LIMIT_PER_ORIGIN, 600), windowMs: WINDOW_MS })
+
+const ALLOWED_METHODS = 'GET, POST, OPTIONS'
+const ALLOWED_HEADERS = 'Content-Type, Authorization, X-Requested-With'
+
+// Self-hosted behind a proxy that sets X-Forwarded-For (nginx, a load balancer)
+const trustProxy = process.env.API_TRUST_PROXY === 'true'
+
+// The platform-verified IP, else the first X-Forwarded-For hop when the proxy is
+// trusted. Untrusted, the header is whatever the caller sends and would mint
+// fresh buckets. Undefined means there is no IP to limit on.
+function getClientIp(request: NextRequest): string | undefined {
+  if (request.ip) return request.ip
+  if (!trustProxy) return undefined
+  return request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined
+}
+
+function setCorsHeaders(headers: Headers, origin: string | null) {
+  if (origin) {
+    headers.set('Access-Control-Allow-Origin', origin)
+    headers.set('Vary', 'Origin')
+  }
+  headers.set('Access-Control-Allow-Methods', ALLOWED_METHODS)
+  headers.set('Access-Control-Allow-Headers', ALLOWED_HEADERS)
+}
+
+function setRateLimitHeaders(headers: Headers, result: RateLimitResult) {
+  headers.set('X-RateLimit-Limit', String(result.limit))
+  headers.set('X-RateLimit-Remaining', String(result.remaining))
+  headers.set('X-RateLimit-Reset', String(Math.ceil(result.resetAt / 1000)))
+}
+
+function errorResponse(status: number, error: string, origin: string | null = null) {
+  const response = NextResponse.json({ success: false, error }, { status })
+  setCorsHeaders(response.headers, origin)
+  return response
+}
+
+/**
+ * Origin allowlist, per-IP and per-origin rate limits, and body validation for
+ * every /api route. Returns a response to send instead of the route's, or the
+ * headers to add to the route's response.
+ */
+export async function guardApiRequest(
+  request: NextRequest
+): Promise<{ response: NextResponse } | { headers: Headers }> {
+  const origin = request.headers.get('origin')
+  const allowedOrigin = origin && isOriginAllowed(origin, request.nextUrl.origin, getAllowedOrigins()) ? origin : null
+
+  // Browsers send Origin on cross-site calls; server-to-server callers fall back to the IP limit
+  if (origin && !allowedOrigin) {
+    return { response: errorResponse(403, 'Origin not allowed') }
+  }
+
+  if (request.method === 'OPTIONS') {
+    const response = new NextResponse(null, { status: 204 })
+    setCorsHeaders(response.headers, allowedOrigin)
+    response.headers.set('Access-Control-Max-Age', '86400')
+    return { response }
+  }
+
+  // Without an IP, one shared bucket would let a single heavy caller throttle everyone
+  const clientIp = getClientIp(request)
+  const ipResult = clientIp ? ipLimiter.check(clientIp) : null
+  // The app's own pages would put every user in one bucket; the per-IP limit covers them
+  const originResult = allowedOrigin && allowedOrigin !== request.nextUrl.origin ? originLimiter.check(allowedOrigin) : null
+  const limited = [ipResult, originResult].find(result => result && !result.allowed)
+
+  if (limited) {
+    const response = errorResponse(429, 'Too many requests', allowedOrigin)
+    response.headers.set('Retry-After', String(Math.max(1, Math.ceil((limited.resetAt - Date.now()) / 1000))))
+    setRateLimitHeaders(response.headers, limited)
+    return { response }
+  }
+
+  if (request.method === 'POST' || request.method === 'PUT') {
+    const contentLength = parseInt(request.headers.get('content-length') ?? '0', 10)
+    if (contentLength > MAX_BODY_BYTES) {
+      return { response: errorResponse(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`, allowedOrigin) }
+    }
+
+    const raw = await request.clone().text()
+    if (raw.length > MAX_BODY_BYTES) {
+      return { response: errorResponse(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`, allowedOrigin) }
+    }
+
+    let body: unknown
+    try {
+      body = JSON.parse(raw)
+    } catch {
+      return { response: errorResponse(400, 'Request body must be valid JSON', allowedOrigin) }
+    }
+
+    const validate = BODY_VALIDATORS[request.nextUrl.pathname]
+    const invalid = validate?.(body)
+    if (invalid) {
+      const response = NextResponse.json(invalid, { status: 400 })
+      setCorsHeaders(response.headers, allowedOrigin)
+      return { response }
+    }
+  }
+
+  const headers = new Headers()
+  setCorsHeaders(headers, allowedOrigin)
+  const reported = ipResult ?? originResult
+  if (reported) setRateLimitHeaders(headers, reported)
+  return { headers }
+}
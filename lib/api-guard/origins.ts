@@ -0,0 +1,32 @@
+// Origin allowlist for the public API routes
+
+const LOCAL_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000']
+
+/**
+ * ALLOWED_ORIGINS is a comma separated list; entries may use one leading
+ * wildcard label, e.g. "https://*.farcaster.xyz". Unset means the app's own
+ * URL (plus localhost in development).
+ */
+export function getAllowedOrigins(): string[] {
+  const configured = process.env.ALLOWED_ORIGINS
+  if (configured) {
+    return configured.split(',').map(origin => origin.trim().replace(/\/$/, '')).filter(Boolean)
+  }
+
+  const origins = process.env.NEXT_PUBLIC_APP_URL ? [process.env.NEXT_PUBLIC_APP_URL.replace(/\/$/, '')] : []
+  return process.env.NODE_ENV === 'production' ? origins : [...origins, ...LOCAL_ORIGINS]
+}
+
+function matchesPattern(origin: string, pattern: string): boolean {
+  if (pattern === '*' || pattern === origin) return true
+
+  const wildcard = pattern.match(/^(https?:\/\/)\*\.(.+)$/)
+  if (!wildcard) return false
+
+  const [, scheme, domain] = wildcard
+  return origin.startsWith(scheme) && origin.endsWith(`.${domain}`)
+}
+
+export function isOriginAllowed(origin: string, selfOrigin: string, allowed = getAllowedOrigins()): boolean {
+  return origin === selfOrigin || allowed.some(pattern => matchesPattern(origin, pattern))
+}
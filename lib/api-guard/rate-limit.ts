@@ -0,0 +1,54 @@
+// Sliding-window rate limiter kept in memory (per middleware instance)
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Epoch ms when the oldest counted request leaves the window
+  resetAt: number
+}
+
+export interface RateLimiterOptions {
+  limit: number
+  windowMs: number
+}
+
+// Past this many keys the least recently seen one is evicted, so a flood of new keys can't grow memory unbounded
+const MAX_TRACKED_KEYS = 10000
+
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions) {
+  const hits = new Map<string, number[]>()
+
+  const prune = (now: number) => {
+    hits.forEach((timestamps, key) => {
+      if (timestamps[timestamps.length - 1] <= now - windowMs) hits.delete(key)
+    })
+  }
+
+  const check = (key: string, now = Date.now()): RateLimitResult => {
+    if (!hits.has(key) && hits.size >= MAX_TRACKED_KEYS) {
+      prune(now)
+      const oldest = hits.keys().next()
+      if (hits.size >= MAX_TRACKED_KEYS && !oldest.done) hits.delete(oldest.value)
+    }
+
+    const recent = (hits.get(key) ?? []).filter(timestamp => timestamp > now - windowMs)
+    const allowed = recent.length < limit
+
+    if (allowed) recent.push(now)
+    // Re-inserting keeps the map ordered by last request, oldest first
+    hits.delete(key)
+    hits.set(key, recent)
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - recent.length),
+      resetAt: (recent[0] ?? now) + windowMs
+    }
+  }
+
+  return { check }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
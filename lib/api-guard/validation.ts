@@ -0,0 +1,19 @@
+// Request body checks run in middleware before a route handler sees the request
+
+import type { z } from 'zod'
+import { pricesRequestSchema, toApiError, type ApiError } from '@/lib/api-schemas'
+
+export const MAX_BODY_BYTES = 16 * 1024
+
+// Returns the 400 body, or null when the body is acceptable
+export type BodyValidator = (body: unknown) => ApiError | null
+
+const schemaValidator = (schema: z.ZodTypeAny): BodyValidator => (body) => {
+  const parsed = schema.safeParse(body)
+  return parsed.success ? null : toApiError(parsed.error)
+}
+
+// POST/PUT routes with a known body shape; others only get the size and JSON checks
+export const BODY_VALIDATORS: Record<string, BodyValidator> = {
+  '/api/tokens/prices': schemaValidator(pricesRequestSchema)
+}
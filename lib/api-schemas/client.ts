@@ -0,0 +1,69 @@
+import type { z } from 'zod'
+import { apiErrorSchema, type ApiError } from './common'
+import { detectResponseSchema, type DetectQuery, type DetectResponse } from './detect'
+import { pricesResponseSchema, type PricesRequest, type PricesResponse } from './prices'
+import { walletDustResponseSchema, type WalletDustQuery, type WalletDustResponse } from './wallet'
+
+export class ApiRequestError extends Error {
+  readonly status: number
+  readonly body?: ApiError
+
+  constructor(status: number, message: string, body?: ApiError) {
+    super(message)
+    this.name = 'ApiRequestError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * fetch() an app/api route and validate the response against its schema, so
+ * callers get typed data or an ApiRequestError - never an unchecked shape.
+ */
+export async function fetchApi<T extends z.ZodTypeAny>(
+  url: string,
+  schema: T,
+  init?: RequestInit
+): Promise<z.infer<T>> {
+  const response = await fetch(url, init)
+  const json = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    const error = apiErrorSchema.safeParse(json)
+    throw new ApiRequestError(
+      response.status,
+      error.success ? error.data.error : `Request failed: ${response.status}`,
+      error.success ? error.data : undefined
+    )
+  }
+
+  const parsed = schema.safeParse(json)
+  if (!parsed.success) {
+    throw new ApiRequestError(response.status, `Unexpected response from ${url}: ${parsed.error.message}`)
+  }
+  return parsed.data
+}
+
+export function fetchPrices(addresses: PricesRequest['addresses'], signal?: AbortSignal): Promise<PricesResponse> {
+  return fetchApi('/api/tokens/prices', pricesResponseSchema, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ addresses }),
+    signal
+  })
+}
+
+export function fetchDetectedTokens(query: DetectQuery = {}, signal?: AbortSignal): Promise<DetectResponse> {
+  const params = new URLSearchParams(Object.entries(query).filter(([, value]) => value !== undefined) as [string, string][])
+  const search = params.toString()
+  return fetchApi(`/api/tokens/detect${search ? `?${search}` : ''}`, detectResponseSchema, { signal })
+}
+
+export function fetchWalletDust(
+  address: string,
+  query: WalletDustQuery = {},
+  signal?: AbortSignal
+): Promise<WalletDustResponse> {
+  const search = query.refresh ? `?refresh=${query.refresh}` : ''
+  return fetchApi(`/api/wallet/${address}/dust${search}`, walletDustResponseSchema, { signal })
+}
@@ -0,0 +1,58 @@
+import { z } from 'zod'
+
+export const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/
+
+export const addressSchema = z
+  .string()
+  .regex(ADDRESS_PATTERN, 'Expected a 0x-prefixed 40 hex character address')
+  .transform(address => address.toLowerCase())
+
+// Every error body from app/api has this shape
+export const apiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  invalidAddresses: z.array(z.string()).optional()
+})
+
+export type ApiError = z.infer<typeof apiErrorSchema>
+
+/**
+ * Array of addresses that reports every malformed entry at once instead of
+ * stopping at the first.
+ */
+export const addressListSchema = (max: number) =>
+  z
+    .array(z.string(), { invalid_type_error: 'addresses must be an array' })
+    .min(1, 'addresses must not be empty')
+    .max(max, `addresses may contain at most ${max} entries`)
+    .superRefine((addresses, ctx) => {
+      const invalid = addresses.filter(address => !ADDRESS_PATTERN.test(address))
+      if (invalid.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${invalid.length} invalid address${invalid.length === 1 ? '' : 'es'}`,
+          params: { invalidAddresses: invalid }
+        })
+      }
+    })
+    .transform(addresses => Array.from(new Set(addresses.map(address => address.toLowerCase()))))
+
+/**
+ * Turn a failed parse into the API error body, pulling invalid addresses out
+ * of the issues so callers can show exactly which ones were rejected.
+ */
+export function toApiError(error: z.ZodError, message = 'Invalid request'): ApiError {
+  const invalidAddresses = error.issues.flatMap(issue =>
+    issue.code === z.ZodIssueCode.custom && Array.isArray(issue.params?.invalidAddresses)
+      ? issue.params.invalidAddresses as string[]
+      : []
+  )
+
+  return {
+    success: false,
+    error: `${message}: ${error.issues.map(issue => issue.message).join('; ')}`,
+    issues: error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    ...(invalidAddresses.length > 0 && { invalidAddresses })
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+const flagSchema = z.enum(['0', '1'])
+
+// Unknown query params are rejected rather than ignored
+export const detectQuerySchema = z
+  .object({
+    clear: flagSchema.optional(),
+    refresh: flagSchema.optional()
+  })
+  .strict()
+
+export const detectedTokenSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  price: z.number().optional(),
+  source: z.string()
+})
+
+export const detectResponseSchema = z.object({
+  success: z.boolean(),
+  tokens: z.array(detectedTokenSchema),
+  metadata: z.object({
+    totalTokens: z.number(),
+    sources: z.array(z.string()),
+    cacheStatus: z.enum(['hit', 'stale', 'miss']).optional(),
+    timestamp: z.string(),
+    cacheExpiry: z.string(),
+    error: z.string().optional()
+  })
+})
+
+export type DetectQuery = z.infer<typeof detectQuerySchema>
+export type DetectedToken = z.infer<typeof detectedTokenSchema>
+export type DetectResponse = z.infer<typeof detectResponseSchema>
@@ -0,0 +1,8 @@
+// Request/response schemas for app/api, shared by the routes, middleware and client
+
+export * from './common'
+export * from './prices'
+export * from './detect'
+export * from './misc'
+export * from './wallet'
+export { ApiRequestError, fetchApi, fetchDetectedTokens, fetchPrices, fetchWalletDust } from './client'
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+
+// GET /api/tokens/test
+export const tokensTestResponseSchema = z.object({
+  success: z.boolean(),
+  testResult: z.object({
+    apiWorking: z.boolean(),
+    tokenCount: z.number(),
+    sources: z.array(z.string()),
+    timestamp: z.string()
+  }).optional(),
+  message: z.string().optional(),
+  error: z.string().optional(),
+  details: z.string().optional()
+})
+
+// GET /api/cors
+export const corsResponseSchema = z.object({
+  message: z.string(),
+  origin: z.string().nullable()
+})
+
+export type TokensTestResponse = z.infer<typeof tokensTestResponseSchema>
+export type CorsResponse = z.infer<typeof corsResponseSchema>
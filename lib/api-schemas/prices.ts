@@ -0,0 +1,43 @@
+import { z } from 'zod'
+import { addressListSchema } from './common'
+
+export const MAX_PRICE_ADDRESSES = 150
+
+export const pricesRequestSchema = z.object({
+  addresses: addressListSchema(MAX_PRICE_ADDRESSES)
+})
+
+export const priceDataSchema = z.object({
+  address: z.string(),
+  price: z.number(),
+  source: z.string(),
+  timestamp: z.number(),
+  confidence: z.number(),
+  liquidityUsd: z.number().optional(),
+  dexId: z.string().optional(),
+  pairAddress: z.string().optional(),
+  routable: z.boolean().optional()
+})
+
+export const mergedPriceSchema = priceDataSchema.extend({
+  sourcesAgreeing: z.number(),
+  quotes: z.array(priceDataSchema)
+})
+
+export const pricesResponseSchema = z.object({
+  success: z.boolean(),
+  prices: z.array(mergedPriceSchema),
+  metadata: z.object({
+    totalPrices: z.number(),
+    sources: z.array(z.string()),
+    timestamp: z.string(),
+    cacheExpiry: z.string(),
+    cacheHits: z.number(),
+    fetched: z.number(),
+    errors: z.array(z.string()).optional(),
+    error: z.string().optional()
+  })
+})
+
+export type PricesRequest = z.infer<typeof pricesRequestSchema>
+export type PricesResponse = z.infer<typeof pricesResponseSchema>
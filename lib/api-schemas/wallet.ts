@@ -0,0 +1,67 @@
+import { z } from 'zod'
+import { RISK_LEVELS, RISK_REASONS } from '@/lib/token-risk/types'
+import { addressSchema } from './common'
+
+// GET /api/wallet/[address]/dust
+export const walletDustParamsSchema = z.object({
+  address: addressSchema
+})
+
+export const walletDustQuerySchema = z
+  .object({
+    refresh: z.enum(['0', '1']).optional()
+  })
+  .strict()
+
+export const dustTokenSchema = z.object({
+  address: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number(),
+  // Raw units as a decimal string; JSON has no bigint
+  balance: z.string().regex(/^\d+$/),
+  balanceFormatted: z.string(),
+  priceUSD: z.number(),
+  valueUSD: z.number(),
+  // Deepest routable pool the price sources reported
+  liquidityUSD: z.number().optional(),
+  dexId: z.string().optional(),
+  pairAddress: z.string().optional(),
+  noRoutablePool: z.boolean(),
+  isEligible: z.boolean(),
+  // Token-list logo first, then whatever a discovery provider had
+  logo: z.string().nullable().optional(),
+  // Listed on a trusted token list
+  verified: z.boolean(),
+  tags: z.array(z.string()).optional(),
+  possibleSpam: z.boolean().optional(),
+  // Spam/scam classification; high-risk tokens are hidden by default
+  riskLevel: z.enum(RISK_LEVELS),
+  riskReasons: z.array(z.enum(RISK_REASONS)),
+  // Discovery providers that reported the token
+  sources: z.array(z.string())
+})
+
+export const walletDustResponseSchema = z.object({
+  success: z.boolean(),
+  address: z.string(),
+  tokens: z.array(dustTokenSchema),
+  metadata: z.object({
+    totalTokens: z.number(),
+    eligibleTokens: z.number(),
+    providers: z.array(z.object({
+      id: z.string(),
+      status: z.enum(['fulfilled', 'rejected', 'skipped']),
+      tokenCount: z.number()
+    })),
+    priceCacheHits: z.number(),
+    cacheStatus: z.enum(['hit', 'stale', 'miss']).optional(),
+    timestamp: z.string(),
+    cacheExpiry: z.string(),
+    error: z.string().optional()
+  })
+})
+
+export type WalletDustQuery = z.infer<typeof walletDustQuerySchema>
+export type DustToken = z.infer<typeof dustTokenSchema>
+export type WalletDustResponse = z.infer<typeof walletDustResponseSchema>
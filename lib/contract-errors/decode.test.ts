@@ -0,0 +1,86 @@
+import {
+  BaseError,
+  ContractFunctionExecutionError,
+  ContractFunctionRevertedError,
+  encodeErrorResult,
+  parseUnits,
+  RawContractError,
+  UserRejectedRequestError
+} from 'viem'
+import { describe, expect, it } from 'vitest'
+import { ERC20_ERRORS_ABI, SPLIT_ROUTER_ABI } from '@/lib/abis'
+import { decodeContractError } from './decode'
+
+const SPENDER = '0x8888888888888888888888888888888888888888'
+
+const insufficientOutput = encodeErrorResult({
+  abi: SPLIT_ROUTER_ABI,
+  errorName: 'InsufficientOutputAmount',
+  args: [parseUnits('10', 18), parseUnits('9.5', 18)]
+})
+
+// What viem throws from simulateContract when the router reverts
+const reverted = (data: `0x${string}`) =>
+  new ContractFunctionExecutionError(
+    new ContractFunctionRevertedError({ abi: SPLIT_ROUTER_ABI, data, functionName: 'getSwapQuote' }),
+    { abi: SPLIT_ROUTER_ABI, functionName: 'getSwapQuote', args: [SPENDER, BigInt(1)] }
+  )
+
+describe('decodeContractError', () => {
+  it('decodes SplitRouter errors from viem reverts', () => {
+    const decoded = decodeContractError(reverted(insufficientOutput))
+
+    expect(decoded.code).toBe('insufficient-output')
+    expect(decoded.errorName).toBe('InsufficientOutputAmount')
+    expect(decoded.message).toContain('expected at least 10 HIGHER')
+    expect(decoded.message).toContain('returned 9.5 HIGHER')
+  })
+
+  it('formats ERC-20 amounts with the token from the context', () => {
+    const data = encodeErrorResult({
+      abi: ERC20_ERRORS_ABI,
+      errorName: 'ERC20InsufficientAllowance',
+      args: [SPENDER, BigInt(0), BigInt(2500000)]
+    })
+    const error = new BaseError('Execution reverted', { cause: new RawContractError({ data }) })
+
+    const decoded = decodeContractError(error, { token: { symbol: 'USDC', decimals: 6 } })
+
+    expect(decoded.code).toBe('insufficient-allowance')
+    expect(decoded.message).toContain('approved 0 USDC')
+    expect(decoded.message).toContain('needs 2.5 USDC')
+  })
+
+  it('falls back to raw units without a token', () => {
+    const data = encodeErrorResult({ abi: SPLIT_ROUTER_ABI, errorName: 'AmountTooSmall', args: [BigInt(42)] })
+    expect(decodeContractError(reverted(data)).message).toContain('42 (raw units)')
+  })
+
+  it('names Solidity panics', () => {
+    const data = encodeErrorResult({
+      abi: [{ type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] }],
+      errorName: 'Panic',
+      args: [BigInt(0x12)]
+    })
+
+    const decoded = decodeContractError(reverted(data))
+    expect(decoded.code).toBe('panic')
+    expect(decoded.message).toContain('division by zero')
+  })
+
+  it('recognizes wallet rejections', () => {
+    const error = new UserRejectedRequestError(new Error('User rejected the request.'))
+    expect(decodeContractError(error).code).toBe('user-rejected')
+    expect(decodeContractError(new Error('MetaMask Tx Signature: User denied transaction signature.')).code).toBe('user-rejected')
+  })
+
+  it('decodes revert data found in a plain error message', () => {
+    const decoded = decodeContractError(new Error(`execution reverted (data="${insufficientOutput}")`))
+    expect(decoded.code).toBe('insufficient-output')
+  })
+
+  it('returns unknown for anything else', () => {
+    expect(decodeContractError(new Error('nonce too low')).code).toBe('unknown')
+    expect(decodeContractError('boom').code).toBe('unknown')
+  })
+})
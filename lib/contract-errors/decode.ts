@@ -0,0 +1,143 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  formatUnits,
+  type Hex
+} from 'viem'
+import { ERC20_ERRORS_ABI, SPLIT_ROUTER_ABI } from '@/lib/abis'
+import { strings } from '@/lib/strings'
+import type { ContractErrorCode, ContractErrorContext, DecodedContractError } from './types'
+
+const HIGHER_DECIMALS = 18
+
+// Tokens revert inside the router's transfers with their own ERC-20 errors
+const DECODABLE_ERRORS_ABI = [...SPLIT_ROUTER_ABI, ...ERC20_ERRORS_ABI]
+
+const CODES_BY_ERROR_NAME: Record<string, ContractErrorCode> = {
+  InsufficientOutputAmount: 'insufficient-output',
+  AmountTooSmall: 'amount-too-small',
+  SwapOutputWouldBeZero: 'swap-output-zero',
+  InsufficientHigherBalance: 'insufficient-higher-balance',
+  ArithmeticOverflow: 'arithmetic-overflow',
+  InvalidTokenAddress: 'invalid-token',
+  CannotSwapHigherToHigher: 'higher-to-higher',
+  ArraysLengthMismatch: 'array-length-mismatch',
+  EmptyArrays: 'empty-batch',
+  ERC20InsufficientAllowance: 'insufficient-allowance',
+  ERC20InsufficientBalance: 'insufficient-balance',
+  ERC20InvalidSpender: 'invalid-spender',
+  ERC20InvalidReceiver: 'invalid-receiver',
+  Panic: 'panic',
+  Error: 'reverted'
+}
+
+// Solidity panic codes worth naming
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory'
+}
+
+const higher = (value: unknown) => `${formatUnits(value as bigint, HIGHER_DECIMALS)} HIGHER`
+
+const tokenAmount = (value: unknown, context: ContractErrorContext) =>
+  context.token
+    ? `${formatUnits(value as bigint, context.token.decimals)} ${context.token.symbol}`
+    : `${String(value)} (raw units)`
+
+const fill = (template: string, values: Record<string, string>) =>
+  Object.keys(values).reduce((message, key) => message.split(`{${key}}`).join(values[key]), template)
+
+// Named placeholders for each error's message template, in argument order
+function formatArgs(errorName: string, args: readonly unknown[], context: ContractErrorContext): Record<string, string> {
+  switch (errorName) {
+    case 'InsufficientOutputAmount':
+      return { expected: higher(args[0]), received: higher(args[1]) }
+    case 'AmountTooSmall':
+      return { amount: tokenAmount(args[0], context) }
+    case 'InsufficientHigherBalance':
+      return { required: higher(args[0]), available: higher(args[1]) }
+    case 'ERC20InsufficientAllowance':
+      return { spender: String(args[0]), allowance: tokenAmount(args[1], context), needed: tokenAmount(args[2], context) }
+    case 'ERC20InsufficientBalance':
+      return { sender: String(args[0]), balance: tokenAmount(args[1], context), needed: tokenAmount(args[2], context) }
+    case 'ERC20InvalidSpender':
+      return { spender: String(args[0]) }
+    case 'ERC20InvalidReceiver':
+      return { receiver: String(args[0]) }
+    case 'Panic': {
+      const code = Number(args[0])
+      return { reason: PANIC_REASONS[code] ?? `code 0x${code.toString(16)}` }
+    }
+    case 'Error':
+      return { reason: String(args[0]) }
+    default:
+      return {}
+  }
+}
+
+function fromErrorResult(errorName: string, args: readonly unknown[] | undefined, context: ContractErrorContext): DecodedContractError {
+  const code = CODES_BY_ERROR_NAME[errorName] ?? 'unknown'
+  const message = fill(strings.contractErrors[code], formatArgs(errorName, args ?? [], context))
+  return { code, message, errorName, args }
+}
+
+const coded = (code: ContractErrorCode, values: Record<string, string> = {}): DecodedContractError =>
+  ({ code, message: fill(strings.contractErrors[code], values) })
+
+function decodeRevertData(data: Hex, context: ContractErrorContext): DecodedContractError | undefined {
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: DECODABLE_ERRORS_ABI, data })
+    return fromErrorResult(errorName, args, context)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Turn whatever a contract call threw into a code and a message people can act
+ * on. Walks viem's error chain for the revert, decodes its data against the
+ * SplitRouter ABI (which carries the ERC-20 errors too), and falls back to
+ * revert data found in the message for errors from other libraries.
+ */
+export function decodeContractError(error: unknown, context: ContractErrorContext = {}): DecodedContractError {
+  if (error instanceof BaseError) {
+    if (error.walk(e => e instanceof UserRejectedRequestError)) return coded('user-rejected')
+    if (error.walk(e => e instanceof InsufficientFundsError)) return coded('insufficient-funds')
+
+    const reverted = error.walk(e => e instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError) {
+      if (reverted.data) return fromErrorResult(reverted.data.errorName, reverted.data.args, context)
+      const decoded = reverted.raw && decodeRevertData(reverted.raw, context)
+      if (decoded) return decoded
+      if (reverted.reason) return coded('reverted', { reason: reverted.reason })
+    }
+
+    const raw = error.walk(e => e instanceof RawContractError)
+    if (raw instanceof RawContractError && typeof raw.data === 'string') {
+      const decoded = decodeRevertData(raw.data, context)
+      if (decoded) return decoded
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  if (/user (rejected|denied)/i.test(message)) return coded('user-rejected')
+  if (/insufficient funds/i.test(message)) return coded('insufficient-funds')
+
+  // Revert data pasted into the message by wallets and RPC wrappers
+  const data = message.match(/0x[0-9a-fA-F]{8,}/g) ?? []
+  for (const candidate of data) {
+    const decoded = decodeRevertData(candidate as Hex, context)
+    if (decoded) return decoded
+  }
+
+  return coded('unknown')
+}
@@ -0,0 +1,39 @@
+// Machine-readable codes for contract and wallet errors; messages live in lib/strings.ts
+
+export type ContractErrorCode =
+  // SplitRouter
+  | 'insufficient-output'
+  | 'amount-too-small'
+  | 'swap-output-zero'
+  | 'insufficient-higher-balance'
+  | 'arithmetic-overflow'
+  | 'invalid-token'
+  | 'higher-to-higher'
+  | 'array-length-mismatch'
+  | 'empty-batch'
+  // ERC-20 (OpenZeppelin 5 custom errors)
+  | 'insufficient-allowance'
+  | 'insufficient-balance'
+  | 'invalid-spender'
+  | 'invalid-receiver'
+  // Solidity built-ins
+  | 'panic'
+  | 'reverted'
+  // Wallet and node
+  | 'user-rejected'
+  | 'insufficient-funds'
+  | 'unknown'
+
+// Formats token amounts in ERC-20 errors, which don't say which token they came from
+export interface ContractErrorContext {
+  token?: { symbol: string; decimals: number }
+}
+
+export interface DecodedContractError {
+  code: ContractErrorCode
+  // Localized, with arguments formatted for people
+  message: string
+  // Solidity error name when the revert data decoded
+  errorName?: string
+  args?: readonly unknown[]
+}
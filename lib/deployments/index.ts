@@ -0,0 +1,8 @@
+export * from './types'
+export {
+  BASE_DEPLOYMENT,
+  BASE_SEPOLIA_DEPLOYMENT,
+  LOCAL_DEPLOYMENT,
+  getDeployment,
+  getDeployments
+} from './registry'
@@ -0,0 +1,93 @@
+import { isAddress, zeroAddress, type Address } from 'viem'
+import { anvil, base, baseSepolia } from 'viem/chains'
+import type { ContractAddresses, Deployment } from './types'
+
+const BASE_CONTRACTS: ContractAddresses = {
+  SPLIT_ROUTER: '0x07EDd0bf8a04483cFE19a6B0B1d7B755E5B9837D',
+  HIGHER_TOKEN: '0x0578d8A44db98B23BF096A382e016e29a5Ce0ffe',
+  UNISWAP_V3_FACTORY: '0x33128a8fc17869897dce68ed026d694621f6fdfd',
+  UNISWAP_V3_ROUTER: '0x2626664c2603336E57B271c5C0b26F421741e481',
+  UNISWAP_V3_QUOTER: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+  UNISWAP_V3_POSITION_MANAGER: zeroAddress,
+  WETH: '0x4200000000000000000000000000000000000006',
+  ETH_HIGHER_POOL: '0xCC28456d4Ff980CeE3457Ca809a257E52Cd9CDb0',
+  ETH_USD_PRICE_FEED: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70'
+}
+
+// Unset or malformed overrides fall back, so a typo can't point swaps at a random address
+function addressFromEnv(name: string, value: string | undefined, fallback: Address): Address {
+  if (!value) return fallback
+  if (isAddress(value)) return value
+  console.warn(`⚠️ ${name} is not an address, using ${fallback}`)
+  return fallback
+}
+
+function createDeployment(deployment: Omit<Deployment, 'isDeployed'>): Deployment {
+  const { SPLIT_ROUTER, HIGHER_TOKEN } = deployment.contracts
+  return { ...deployment, isDeployed: SPLIT_ROUTER !== zeroAddress && HIGHER_TOKEN !== zeroAddress }
+}
+
+/**
+ * Base mainnet. Token lists, price sources and the server scan only cover
+ * this chain, so they use it directly instead of the connected one.
+ */
+export const BASE_DEPLOYMENT = createDeployment({
+  chain: base,
+  rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://1rpc.io/base',
+  contracts: BASE_CONTRACTS
+})
+
+// No SplitRouter or HIGHER on Sepolia yet; QA points these at their own deployment.
+// Router, quoter and feed stay zero until configured, which turns off the
+// on-chain price source there
+export const BASE_SEPOLIA_DEPLOYMENT = createDeployment({
+  chain: baseSepolia,
+  rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
+  contracts: {
+    SPLIT_ROUTER: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_SPLIT_ROUTER', process.env.NEXT_PUBLIC_BASE_SEPOLIA_SPLIT_ROUTER, zeroAddress),
+    HIGHER_TOKEN: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_HIGHER_TOKEN', process.env.NEXT_PUBLIC_BASE_SEPOLIA_HIGHER_TOKEN, zeroAddress),
+    UNISWAP_V3_FACTORY: '0x0227628f3F023bb0B980b67D528571c951c9bC62',
+    UNISWAP_V3_ROUTER: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_UNISWAP_V3_ROUTER', process.env.NEXT_PUBLIC_BASE_SEPOLIA_UNISWAP_V3_ROUTER, zeroAddress),
+    UNISWAP_V3_QUOTER: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_UNISWAP_V3_QUOTER', process.env.NEXT_PUBLIC_BASE_SEPOLIA_UNISWAP_V3_QUOTER, zeroAddress),
+    UNISWAP_V3_POSITION_MANAGER: '0x03a520b32C04BF3bE551Fcac6619C22f1B9C6Fd6',
+    WETH: '0x4200000000000000000000000000000000000006',
+    ETH_HIGHER_POOL: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_ETH_HIGHER_POOL', process.env.NEXT_PUBLIC_BASE_SEPOLIA_ETH_HIGHER_POOL, zeroAddress),
+    ETH_USD_PRICE_FEED: addressFromEnv('NEXT_PUBLIC_BASE_SEPOLIA_ETH_USD_PRICE_FEED', process.env.NEXT_PUBLIC_BASE_SEPOLIA_ETH_USD_PRICE_FEED, zeroAddress)
+  }
+})
+
+/**
+ * Anvil or Hardhat node forking Base (chain id 31337). The fork carries
+ * mainnet state, so mainnet addresses work unless a fresh router is deployed.
+ */
+export const LOCAL_DEPLOYMENT = createDeployment({
+  chain: anvil,
+  rpcUrl: process.env.NEXT_PUBLIC_LOCAL_RPC_URL || 'http://127.0.0.1:8545',
+  contracts: {
+    ...BASE_CONTRACTS,
+    SPLIT_ROUTER: addressFromEnv('NEXT_PUBLIC_LOCAL_SPLIT_ROUTER', process.env.NEXT_PUBLIC_LOCAL_SPLIT_ROUTER, BASE_CONTRACTS.SPLIT_ROUTER)
+  }
+})
+
+// Production builds only offer the local fork when its RPC is configured explicitly
+const localEnabled = process.env.NODE_ENV === 'development' || !!process.env.NEXT_PUBLIC_LOCAL_RPC_URL
+
+const DEPLOYMENTS: Deployment[] = [
+  BASE_DEPLOYMENT,
+  BASE_SEPOLIA_DEPLOYMENT,
+  ...(localEnabled ? [LOCAL_DEPLOYMENT] : [])
+]
+
+/**
+ * Every chain the app can connect to, Base mainnet first
+ */
+export function getDeployments(): Deployment[] {
+  return DEPLOYMENTS
+}
+
+/**
+ * Addresses for a chain, or undefined when the app doesn't support it
+ */
+export function getDeployment(chainId: number | undefined): Deployment | undefined {
+  return DEPLOYMENTS.find(deployment => deployment.chain.id === chainId)
+}
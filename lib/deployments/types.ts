@@ -0,0 +1,23 @@
+import type { Address, Chain } from 'viem'
+
+// Same keys on every chain, so callers don't care which one they're on
+export interface ContractAddresses {
+  SPLIT_ROUTER: Address
+  HIGHER_TOKEN: Address
+  UNISWAP_V3_FACTORY: Address
+  UNISWAP_V3_ROUTER: Address
+  UNISWAP_V3_QUOTER: Address
+  UNISWAP_V3_POSITION_MANAGER: Address
+  WETH: Address
+  // WETH/HIGHER pool (SplitRouter.WETH_HIGHER_POOL)
+  ETH_HIGHER_POOL: Address
+  ETH_USD_PRICE_FEED: Address
+}
+
+export interface Deployment {
+  chain: Chain
+  rpcUrl: string
+  contracts: ContractAddresses
+  // False until SplitRouter and HIGHER have addresses here; the app connects but can't swap
+  isDeployed: boolean
+}
@@ -0,0 +1,124 @@
+import { getUpstream, UpstreamError, type UpstreamErrorCode } from '@/lib/upstream'
+import { MoralisError } from './errors'
+import type { MoralisClientOptions, MoralisPage, MoralisTokenPrice, MoralisWalletToken } from './types'
+
+const DEFAULT_BASE_URL = 'https://deep-index.moralis.io/api/v2.2'
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_PAGE_SIZE = 100
+const DEFAULT_MAX_PAGES = 20
+const RETRY_BASE_DELAY_MS = 500
+
+const RETRYABLE_UPSTREAM_CODES: UpstreamErrorCode[] = ['rate-limited', 'timeout', 'network']
+
+const isRetryable = (error: unknown) =>
+  error instanceof MoralisError ? error.retryable
+    : error instanceof UpstreamError && RETRYABLE_UPSTREAM_CODES.includes(error.code)
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeoutId)
+      reject(new DOMException('Moralis request aborted', 'AbortError'))
+    }, { once: true })
+  })
+
+/**
+ * Typed Moralis REST client. Calls share the 'moralis' upstream budget and
+ * circuit breaker; transient failures retry with exponential backoff.
+ */
+export function createMoralisClient(options: MoralisClientOptions) {
+  const chain = options.chain ?? 'base'
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '')
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+  const upstream = getUpstream('moralis')
+
+  // Resolves to null on 404, which Moralis uses for "no data for this token"
+  const get = async <T>(path: string, params: Record<string, string | undefined>, signal?: AbortSignal): Promise<T | null> => {
+    const search = new URLSearchParams(
+      Object.entries({ chain, ...params }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    )
+    const url = `${baseUrl}${path}?${search}`
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await upstream.request(url, {
+          init: { headers: { Accept: 'application/json', 'X-API-Key': options.apiKey } },
+          signal
+        })
+
+        if (response.status === 404) return null
+        if (!response.ok) {
+          const detail = await response.text().catch(() => '')
+          throw new MoralisError(response.status, `Moralis ${path} failed: ${response.status}${detail ? ` - ${detail.slice(0, 200)}` : ''}`)
+        }
+        return await response.json() as T
+      } catch (error) {
+        if (signal?.aborted || attempt >= maxRetries || !isRetryable(error)) throw error
+
+        const retryAfterMs = error instanceof UpstreamError ? error.retryAfterMs : undefined
+        await sleep(retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt, signal)
+      }
+    }
+  }
+
+  /**
+   * Every ERC-20 the wallet holds, following `cursor` until the last page.
+   * Spam isn't excluded; `possible_spam` is passed through for the caller.
+   */
+  const getWalletTokens = async (walletAddress: string, signal?: AbortSignal): Promise<MoralisWalletToken[]> => {
+    const tokens: MoralisWalletToken[] = []
+    let cursor: string | undefined
+
+    for (let page = 0; page < maxPages; page++) {
+      const data = await get<MoralisPage<MoralisWalletToken>>(
+        `/wallets/${walletAddress}/tokens`,
+        { limit: String(pageSize), exclude_native: 'true', cursor },
+        signal
+      )
+      if (!data) break
+
+      tokens.push(...data.result)
+      if (!data.cursor) return tokens
+      cursor = data.cursor
+    }
+
+    if (cursor) {
+      console.warn(`⚠️ Moralis: stopped after ${maxPages} pages for ${walletAddress}`)
+    }
+    return tokens
+  }
+
+  /**
+   * USD prices keyed by lowercase address. Moralis prices one token per call;
+   * the upstream bucket paces them.
+   */
+  const getTokenPrices = async (addresses: string[], signal?: AbortSignal): Promise<Map<string, MoralisTokenPrice>> => {
+    const prices = new Map<string, MoralisTokenPrice>()
+
+    const settled = await Promise.allSettled(addresses.map(async address => {
+      const price = await get<MoralisTokenPrice>(`/erc20/${address}/price`, {}, signal)
+      if (price && price.usdPrice > 0) {
+        prices.set(address.toLowerCase(), price)
+      }
+    }))
+
+    if (signal?.aborted) {
+      throw new DOMException('Moralis request aborted', 'AbortError')
+    }
+
+    // One bad token shouldn't sink the batch, but every token failing should
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (addresses.length > 0 && failures.length === addresses.length) {
+      throw failures[0].reason
+    }
+
+    return prices
+  }
+
+  return { getWalletTokens, getTokenPrices }
+}
+
+export type MoralisClient = ReturnType<typeof createMoralisClient>
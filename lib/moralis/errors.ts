@@ -0,0 +1,14 @@
+export class MoralisError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'MoralisError'
+    this.status = status
+  }
+
+  // Moralis 5xx are usually transient; 4xx mean the request itself is wrong
+  get retryable(): boolean {
+    return this.status >= 500
+  }
+}
@@ -0,0 +1,20 @@
+// Server only: the API key is read from MORALIS_API_KEY, which never reaches the browser
+
+import { createMoralisClient, type MoralisClient } from './client'
+
+export * from './types'
+export { MoralisError } from './errors'
+export { createMoralisClient, type MoralisClient } from './client'
+
+let moralisClient: MoralisClient | null | undefined
+
+/**
+ * Shared client, or null when MORALIS_API_KEY isn't set
+ */
+export function getMoralisClient(): MoralisClient | null {
+  if (moralisClient === undefined) {
+    const apiKey = process.env.MORALIS_API_KEY
+    moralisClient = apiKey ? createMoralisClient({ apiKey }) : null
+  }
+  return moralisClient
+}
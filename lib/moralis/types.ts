@@ -0,0 +1,47 @@
+// Response shapes for the Moralis v2.2 endpoints we call
+
+export interface MoralisPage<T> {
+  // Null on the last page
+  cursor: string | null
+  page: number
+  page_size: number
+  result: T[]
+}
+
+// GET /wallets/{address}/tokens
+export interface MoralisWalletToken {
+  token_address: string
+  symbol: string | null
+  name: string | null
+  logo: string | null
+  thumbnail: string | null
+  decimals: number | string | null
+  // Raw units as a decimal string
+  balance: string
+  balance_formatted?: string
+  possible_spam: boolean
+  verified_contract?: boolean
+  native_token?: boolean
+  usd_price?: number | null
+}
+
+// GET /erc20/{address}/price
+export interface MoralisTokenPrice {
+  tokenAddress: string
+  usdPrice: number
+  tokenSymbol?: string
+  tokenDecimals?: string
+  exchangeName?: string
+  possibleSpam?: boolean
+}
+
+export interface MoralisClientOptions {
+  apiKey: string
+  chain?: string
+  baseUrl?: string
+  // Retries after the first attempt for 5xx, timeouts and rate limits
+  maxRetries?: number
+  pageSize?: number
+  // Stops runaway pagination on enormous wallets
+  maxPages?: number
+}
@@ -0,0 +1,194 @@
+import { encodeFunctionData, type Abi, type Address, type Hex, type PublicClient } from 'viem'
+
+// Multicall3, same address on Base and every other chain it's deployed to
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11' as Address
+
+// Well under the request-body limits of the public Base RPCs
+const DEFAULT_MAX_CALLDATA_BYTES = 16 * 1024
+// aggregate3 wraps each call in (target, allowFailure, callData) plus offsets
+const PER_CALL_OVERHEAD_BYTES = 160
+const DEFAULT_CHUNK_RETRIES = 2
+
+export interface MulticallCall {
+  address: Address
+  abi: Abi | readonly unknown[]
+  functionName: string
+  args?: readonly unknown[]
+}
+
+export type MulticallCallResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error }
+
+export interface MulticallChunkOptions {
+  maxCalldataBytes?: number
+  // Retries for a chunk whose whole eth_call failed (not individual reverts)
+  retries?: number
+  signal?: AbortSignal
+}
+
+const calldataBytes = (call: MulticallCall): number => {
+  try {
+    const data = encodeFunctionData(call as Parameters<typeof encodeFunctionData>[0])
+    return (data.length - 2) / 2 + PER_CALL_OVERHEAD_BYTES
+  } catch {
+    return PER_CALL_OVERHEAD_BYTES
+  }
+}
+
+// Declared view (it's payable on-chain) so it can be read with eth_call
+const MULTICALL3_AGGREGATE3_ABI = [
+  {
+    inputs: [
+      {
+        components: [
+          { name: 'target', type: 'address' },
+          { name: 'allowFailure', type: 'bool' },
+          { name: 'callData', type: 'bytes' }
+        ],
+        name: 'calls',
+        type: 'tuple[]'
+      }
+    ],
+    name: 'aggregate3',
+    outputs: [
+      {
+        components: [
+          { name: 'success', type: 'bool' },
+          { name: 'returnData', type: 'bytes' }
+        ],
+        name: 'returnData',
+        type: 'tuple[]'
+      }
+    ],
+    stateMutability: 'view',
+    type: 'function'
+  }
+] as const
+
+export interface RawCall {
+  target: Address
+  callData: Hex
+}
+
+export interface RawCallResult {
+  success: boolean
+  returnData: Hex
+  // Set when the RPC call itself failed, as opposed to the call reverting
+  error?: Error
+}
+
+const chunkBySize = <T>(items: T[], sizeOf: (item: T) => number, maxBytes: number): T[][] => {
+  const chunks: T[][] = []
+  let current: T[] = []
+  let currentBytes = 0
+
+  items.forEach(item => {
+    const size = sizeOf(item)
+    if (current.length > 0 && currentBytes + size > maxBytes) {
+      chunks.push(current)
+      current = []
+      currentBytes = 0
+    }
+    current.push(item)
+    currentBytes += size
+  })
+
+  if (current.length > 0) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Split calls into groups whose combined calldata stays under the limit
+ */
+export function chunkByCalldata<T extends MulticallCall>(calls: T[], maxBytes = DEFAULT_MAX_CALLDATA_BYTES): T[][] {
+  return chunkBySize(calls, calldataBytes, maxBytes)
+}
+
+// Runs each chunk in turn, retrying a chunk whose eth_call failed
+async function runChunks<T, R>(
+  chunks: T[][],
+  run: (chunk: T[]) => Promise<R[]>,
+  onFailure: (chunk: T[], error: Error) => R[],
+  options: MulticallChunkOptions
+): Promise<R[]> {
+  const retries = options.retries ?? DEFAULT_CHUNK_RETRIES
+  const results: R[] = []
+
+  for (const chunk of chunks) {
+    if (options.signal?.aborted) {
+      throw new DOMException('Multicall aborted', 'AbortError')
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        results.push(...await run(chunk))
+        break
+      } catch (error) {
+        if (attempt < retries) {
+          await new Promise(resolve => setTimeout(resolve, 500 * (attempt + 1)))
+          continue
+        }
+        console.warn(`⚠️ Multicall chunk of ${chunk.length} calls failed:`, error)
+        results.push(...onFailure(chunk, error instanceof Error ? error : new Error(String(error))))
+        break
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Any number of view calls through Multicall3 with allowFailure: one eth_call
+ * per calldata-sized chunk, chunks run one after another so public RPCs
+ * don't rate-limit us. Results come back in call order; a chunk that keeps
+ * failing marks its calls as failures instead of failing the batch.
+ */
+export async function multicallChunked(
+  client: PublicClient,
+  calls: MulticallCall[],
+  options: MulticallChunkOptions = {}
+): Promise<MulticallCallResult[]> {
+  return runChunks(
+    chunkByCalldata(calls, options.maxCalldataBytes),
+    async chunk => await client.multicall({
+      contracts: chunk as Parameters<PublicClient['multicall']>[0]['contracts'],
+      allowFailure: true,
+      // We've already chunked; stop viem from splitting again
+      batchSize: 0,
+      multicallAddress: MULTICALL3_ADDRESS
+    }) as MulticallCallResult[],
+    (chunk, error) => chunk.map((): MulticallCallResult => ({ status: 'failure', error })),
+    options
+  )
+}
+
+/**
+ * Like multicallChunked but returns undecoded return data, for calls whose
+ * return type varies between contracts (string vs bytes32 symbols).
+ */
+export async function multicallRaw(
+  client: PublicClient,
+  calls: RawCall[],
+  options: MulticallChunkOptions = {}
+): Promise<RawCallResult[]> {
+  return runChunks(
+    chunkBySize(
+      calls,
+      call => (call.callData.length - 2) / 2 + PER_CALL_OVERHEAD_BYTES,
+      options.maxCalldataBytes ?? DEFAULT_MAX_CALLDATA_BYTES
+    ),
+    async chunk => {
+      const results = await client.readContract({
+        address: MULTICALL3_ADDRESS,
+        abi: MULTICALL3_AGGREGATE3_ABI,
+        functionName: 'aggregate3',
+        args: [chunk.map(call => ({ target: call.target, allowFailure: true, callData: call.callData }))]
+      })
+      return results.map(({ success, returnData }): RawCallResult => ({ success, returnData }))
+    },
+    (chunk, error) => chunk.map((): RawCallResult => ({ success: false, returnData: '0x', error })),
+    options
+  )
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createCachedPriceOracle } from './cached'
+import { createPriceOracle } from './registry'
+import type { PriceSource } from './types'
+
+const signal = new AbortController().signal
+
+const source = (getPrices: PriceSource['getPrices']): PriceSource =>
+  ({ id: 'test', confidence: 0.8, getPrices: vi.fn(getPrices) })
+
+describe('createCachedPriceOracle', () => {
+  it('caches tokens no source could price', async () => {
+    const empty = source(async () => [])
+    const cached = createCachedPriceOracle(createPriceOracle([empty]))
+    const address = '0x1111111111111111111111111111111111111111'
+
+    await cached.getPrices([address], signal)
+    const second = await cached.getPrices([address], signal)
+
+    expect(second.cacheHits).toBe(1)
+    expect(empty.getPrices).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not cache anything when every source failed', async () => {
+    const failing = source(async () => {
+      throw new Error('circuit open')
+    })
+    const cached = createCachedPriceOracle(createPriceOracle([failing]))
+    const address = '0x2222222222222222222222222222222222222222'
+
+    await cached.getPrices([address], signal)
+    const second = await cached.getPrices([address], signal)
+
+    expect(second.cacheHits).toBe(0)
+    expect(second.fetched).toBe(1)
+    expect(failing.getPrices).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,118 @@
+// Server only: reads and writes the server cache, so keep it out of the index
+
+import { getServerCache, isFresh, revalidateInBackground, type CacheEntry } from '@/lib/server-cache'
+import type { PriceOracle } from './registry'
+import type { MergedPrice, PriceSourceOutcome } from './types'
+
+// 🚀 LIVE CACHE: One entry per address, each with its own expiry
+export const PRICE_CACHE_DURATION = 2 * 60 * 1000 // 2 minutes for live price updates
+const DISPUTED_CACHE_DURATION = 30 * 1000 // Low-confidence prices are re-checked sooner
+const UNPRICED_CACHE_DURATION = 60 * 1000 // Tokens no source could price
+const STALE_DURATION = 10 * 60 * 1000 // Served while a refresh runs
+const LOW_CONFIDENCE = 0.5
+
+const priceKey = (address: string) => `prices:v1:${address}`
+
+export interface CachedPricesResult {
+  // Request order, unpriced addresses left out
+  prices: MergedPrice[]
+  // Outcomes of the live fetch for the misses; empty when everything was cached
+  outcomes: PriceSourceOutcome[]
+  cacheHits: number
+  staleHits: number
+  fetched: number
+  // Oldest cached entry served, or now
+  storedAt: number
+  // Earliest expiry among everything served
+  expiresAt: number
+}
+
+/**
+ * Per-address price cache in front of an oracle. Fresh and stale entries are
+ * served (stale ones refreshed in the background) and only the misses are
+ * fetched. Addresses are expected lowercased and deduplicated.
+ */
+export function createCachedPriceOracle(oracle: PriceOracle) {
+  // Unpriced addresses are cached as null so big wallets don't refetch them on every scan,
+  // but only when some source answered; an outage would otherwise pin them at $0
+  const storePrices = async (requested: string[], prices: MergedPrice[], outcomes: PriceSourceOutcome[]) => {
+    if (!outcomes.some(outcome => outcome.status === 'fulfilled')) return
+
+    const cache = getServerCache()
+    const byAddress = new Map(prices.map(price => [price.address, price]))
+
+    await Promise.all(requested.map(address => {
+      const price = byAddress.get(address) ?? null
+      const ttlMs = !price ? UNPRICED_CACHE_DURATION
+        : price.confidence < LOW_CONFIDENCE ? DISPUTED_CACHE_DURATION
+        : PRICE_CACHE_DURATION
+      return cache.set(priceKey(address), price, { ttlMs, staleTtlMs: price ? STALE_DURATION : 0 })
+    }))
+  }
+
+  const getPrices = async (addresses: string[], signal: AbortSignal): Promise<CachedPricesResult> => {
+    const entries: (CacheEntry<MergedPrice | null> | null)[] = await getServerCache()
+      .getMany<MergedPrice | null>(addresses.map(priceKey))
+      .catch(error => {
+        console.warn('⚠️ Price cache read failed:', error)
+        return []
+      })
+
+    const hits = new Map<string, CacheEntry<MergedPrice | null>>()
+    addresses.forEach((address, i) => {
+      const entry = entries[i]
+      if (entry) hits.set(address, entry)
+    })
+
+    const missing = addresses.filter(address => !hits.has(address))
+    const staleAddresses = Array.from(hits.entries())
+      .filter(([, entry]) => !isFresh(entry))
+      .map(([address]) => address)
+
+    if (staleAddresses.length > 0) {
+      revalidateInBackground(`prices:${staleAddresses.join(',')}`, async () => {
+        const { prices, outcomes } = await oracle.getPrices(staleAddresses, new AbortController().signal)
+        await storePrices(staleAddresses, prices, outcomes)
+      })
+    }
+
+    const merged = new Map<string, MergedPrice>()
+    let outcomes: PriceSourceOutcome[] = []
+
+    if (missing.length > 0) {
+      const result = await oracle.getPrices(missing, signal)
+      result.prices.forEach(price => merged.set(price.address, price))
+      outcomes = result.outcomes
+
+      // 🚀 UPDATE LIVE CACHE: each address gets its own TTL
+      await storePrices(missing, result.prices, result.outcomes).catch(error => console.warn('⚠️ Price cache write failed:', error))
+    }
+
+    hits.forEach((entry, address) => {
+      if (entry.value) merged.set(address, entry.value)
+    })
+
+    const now = Date.now()
+    const cachedEntries = Array.from(hits.values())
+    const expiries = [
+      ...cachedEntries.map(entry => entry.expiresAt),
+      ...(missing.length > 0 ? [now + PRICE_CACHE_DURATION] : [])
+    ]
+
+    return {
+      prices: addresses
+        .map(address => merged.get(address))
+        .filter((price): price is MergedPrice => !!price),
+      outcomes,
+      cacheHits: hits.size,
+      staleHits: staleAddresses.length,
+      fetched: missing.length,
+      storedAt: Math.min(now, ...cachedEntries.map(entry => entry.storedAt)),
+      expiresAt: expiries.length > 0 ? Math.min(...expiries) : now + PRICE_CACHE_DURATION
+    }
+  }
+
+  return { getPrices }
+}
+
+export type CachedPriceOracle = ReturnType<typeof createCachedPriceOracle>
@@ -0,0 +1,66 @@
+import { createCoinGeckoSource } from './sources/coingecko'
+import { createDexScreenerSource } from './sources/dexscreener'
+import { createMoralisPriceSource } from './sources/moralis'
+import { createUniswapV3Source } from './sources/uniswap-v3'
+import { createPublicClient, http, type PublicClient } from 'viem'
+import { BASE_DEPLOYMENT, type Deployment } from '@/lib/deployments'
+import type { MoralisClient } from '@/lib/moralis'
+import type { PriceSource } from './types'
+
+export * from './types'
+export { mergeLivePrices, type MergeMode, type MergeOptions } from './merge'
+export { createPriceOracle, type PriceOracle } from './registry'
+export {
+  createCoinGeckoSource,
+  createDexScreenerSource,
+  createMoralisPriceSource,
+  createUniswapV3Source
+}
+export type { UniswapV3SourceOptions } from './sources/uniswap-v3'
+
+export type PriceSourceId = 'uniswap-v3' | 'dexscreener' | 'coingecko' | 'moralis'
+
+const DEFAULT_PRICE_SOURCE_IDS: PriceSourceId[] = ['uniswap-v3', 'dexscreener', 'coingecko', 'moralis']
+
+/**
+ * Source ids from NEXT_PUBLIC_PRICE_SOURCES, e.g. "coingecko,dexscreener"
+ */
+export function getPriceSourceIds(): PriceSourceId[] {
+  const configured = process.env.NEXT_PUBLIC_PRICE_SOURCES
+  if (!configured) return DEFAULT_PRICE_SOURCE_IDS
+
+  const ids = configured
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is PriceSourceId => {
+      const isKnown = DEFAULT_PRICE_SOURCE_IDS.includes(id as PriceSourceId)
+      if (!isKnown && id) console.warn(`⚠️ Unknown price source: ${id}`)
+      return isKnown
+    })
+
+  return ids.length > 0 ? ids : DEFAULT_PRICE_SOURCE_IDS
+}
+
+export interface ConfiguredPriceSourceOptions {
+  // Client for on-chain sources; defaults to the deployment's RPC
+  publicClient?: PublicClient
+  // Chain whose pools and feed the on-chain source reads; defaults to Base mainnet
+  deployment?: Deployment
+  // Server routes only - see getMoralisClient()
+  moralis?: MoralisClient | null
+}
+
+export function createConfiguredPriceSources(options: ConfiguredPriceSourceOptions = {}): PriceSource[] {
+  const deployment = options.deployment ?? BASE_DEPLOYMENT
+  return getPriceSourceIds().flatMap((id): PriceSource[] => {
+    switch (id) {
+      case 'uniswap-v3': return [createUniswapV3Source(options.publicClient ?? createPublicClient({
+        chain: deployment.chain,
+        transport: http(deployment.rpcUrl)
+      }) as PublicClient, { contracts: deployment.contracts })]
+      case 'dexscreener': return [createDexScreenerSource(undefined, deployment.contracts)]
+      case 'coingecko': return [createCoinGeckoSource()]
+      case 'moralis': return options.moralis ? [createMoralisPriceSource(options.moralis)] : []
+    }
+  })
+}
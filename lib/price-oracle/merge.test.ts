@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { mergeLivePrices } from './merge'
+import type { PriceData } from './types'
+
+const TOKEN = '0x1111111111111111111111111111111111111111'
+
+const quote = (source: string, price: number, confidence: number, extra: Partial<PriceData> = {}): PriceData =>
+  ({ address: TOKEN, price, source, timestamp: 1000, confidence, ...extra })
+
+const pair = (price: number, liquidityUsd: number, pairAddress: string, routable = true): PriceData =>
+  quote('dexscreener', price, 0.75, { liquidityUsd, dexId: 'uniswap', pairAddress, routable })
+
+describe('mergeLivePrices', () => {
+  it('takes the median of the sources that agree and drops outliers', () => {
+    const [merged] = mergeLivePrices([
+      [quote('uniswap-v3', 1.0, 0.9)],
+      [quote('coingecko', 1.02, 0.8)],
+      [quote('moralis', 5, 0.5)]
+    ])
+
+    expect(merged.price).toBeCloseTo(1.01)
+    expect(merged.sourcesAgreeing).toBe(2)
+    // 1 - 0.1 * 0.2, scaled by the two of three sources agreeing
+    expect(merged.confidence).toBeCloseTo(0.98 * (2 / 3))
+    expect(merged.quotes).toHaveLength(3)
+  })
+
+  it('falls back to the most confident source at reduced confidence when nothing agrees', () => {
+    const [merged] = mergeLivePrices([[quote('uniswap-v3', 1, 0.9)], [quote('moralis', 2, 0.5)]])
+
+    expect(merged.price).toBe(1)
+    expect(merged.source).toBe('uniswap-v3')
+    expect(merged.confidence).toBeCloseTo(0.45)
+    expect(merged.sourcesAgreeing).toBe(1)
+  })
+
+  it('respects maxDeviation', () => {
+    const results = [[quote('uniswap-v3', 1, 0.9)], [quote('coingecko', 1.1, 0.8)], [quote('moralis', 1.3, 0.5)]]
+
+    expect(mergeLivePrices(results)[0].sourcesAgreeing).toBe(3)
+    expect(mergeLivePrices(results, { maxDeviation: 0.05 })[0].sourcesAgreeing).toBe(1)
+  })
+
+  it('keeps the most confident price in confidence mode', () => {
+    const [merged] = mergeLivePrices([[quote('coingecko', 1, 0.8)], [quote('moralis', 5, 0.95)]], { mode: 'confidence' })
+
+    expect(merged.price).toBe(5)
+    expect(merged.source).toBe('moralis')
+  })
+
+  it('merges addresses case-insensitively and ignores non-positive prices', () => {
+    const merged = mergeLivePrices([
+      [quote('coingecko', 1, 0.8, { address: TOKEN.toUpperCase().replace('0X', '0x') })],
+      [quote('moralis', 1, 0.7), quote('moralis', 0, 0.7, { address: '0x2222222222222222222222222222222222222222' })]
+    ])
+
+    expect(merged).toHaveLength(1)
+    expect(merged[0].address).toBe(TOKEN)
+    expect(merged[0].sourcesAgreeing).toBe(2)
+  })
+
+  it('weights DexScreener pairs by liquidity', () => {
+    const [merged] = mergeLivePrices([[pair(1, 100, '0xaaa'), pair(2, 1000, '0xbbb')]])
+
+    expect(merged.price).toBe(2)
+    expect(merged.quotes).toHaveLength(1)
+  })
+
+  it('reports the deepest routable pool', () => {
+    const [merged] = mergeLivePrices([
+      [pair(1, 500, '0xaaa'), pair(1, 5000, '0xbbb', false)],
+      [quote('coingecko', 1, 0.85)]
+    ])
+
+    expect(merged.pairAddress).toBe('0xaaa')
+    expect(merged.liquidityUsd).toBe(500)
+  })
+
+  it('prices tokens from non-routable pairs without reporting a pool', () => {
+    const [merged] = mergeLivePrices([[pair(3, 5000, '0xbbb', false)]])
+
+    expect(merged.price).toBe(3)
+    expect(merged.pairAddress).toBeUndefined()
+  })
+})
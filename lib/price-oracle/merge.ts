@@ -0,0 +1,131 @@
+import type { MergedPrice, PriceData } from './types'
+
+export type MergeMode = 'consensus' | 'confidence'
+
+export interface MergeOptions {
+  // 'confidence' keeps the single most confident price, the old behaviour
+  mode?: MergeMode
+  // Source values further than this from the median are treated as outliers
+  maxDeviation?: number
+}
+
+const DEFAULT_MAX_DEVIATION = 0.2 // 20%
+
+// A lone survivor of a disagreement is trusted half as much
+const DISPUTED_CONFIDENCE_FACTOR = 0.5
+
+const rankPrice = (a: PriceData, b: PriceData) =>
+  b.confidence - a.confidence || b.timestamp - a.timestamp
+
+function weightedMedian(values: { value: number; weight: number }[]): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value)
+  const totalWeight = sorted.reduce((sum, v) => sum + v.weight, 0)
+
+  if (!(totalWeight > 0)) {
+    return weightedMedian(sorted.map(v => ({ value: v.value, weight: 1 })))
+  }
+
+  let cumulative = 0
+  for (const entry of sorted) {
+    cumulative += entry.weight
+    if (cumulative >= totalWeight / 2) return entry.value
+  }
+  return sorted[sorted.length - 1].value
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+// Pools SplitRouter can't trade through still price the token but are never
+// reported as its pool
+function deepestPool(quotes: PriceData[]): PriceData | undefined {
+  return quotes
+    .filter(q => q.pairAddress && q.routable)
+    .sort((a, b) => (b.liquidityUsd ?? 0) - (a.liquidityUsd ?? 0))[0] ?? quotes[0]
+}
+
+// Pool fields follow the deepest routable pool any source reported, outlier or not
+const poolFields = (quotes: PriceData[]) => {
+  const pool = deepestPool(quotes.filter(q => q.pairAddress && q.routable))
+  return {
+    liquidityUsd: pool?.liquidityUsd,
+    dexId: pool?.dexId,
+    pairAddress: pool?.pairAddress
+  }
+}
+
+/**
+ * One value per source. DexScreener reports several pairs per token, so its
+ * value is the median of those pairs weighted by pool liquidity.
+ */
+function collapseBySource(quotes: PriceData[]): PriceData[] {
+  const bySource = new Map<string, PriceData[]>()
+  quotes.forEach(quote => bySource.set(quote.source, [...(bySource.get(quote.source) ?? []), quote]))
+
+  return Array.from(bySource.values()).map(sourceQuotes => {
+    if (sourceQuotes.length === 1) return sourceQuotes[0]
+
+    // The deepest pair is the one reported (liquidity, DEX, pool address)
+    const price = weightedMedian(sourceQuotes.map(q => ({ value: q.price, weight: q.liquidityUsd ?? 0 })))
+    return { ...deepestPool(sourceQuotes)!, price }
+  })
+}
+
+function mergeByConsensus(quotes: PriceData[], maxDeviation: number): MergedPrice {
+  const values = collapseBySource(quotes).sort(rankPrice)
+  const mid = median(values.map(v => v.price))
+  const agreeing = values.filter(v => Math.abs(v.price - mid) / mid <= maxDeviation)
+
+  // Nothing sits near the median (e.g. two sources far apart): fall back to the
+  // most confident source, but say so through a lower confidence
+  if (agreeing.length === 0) {
+    const best = values[0]
+    return {
+      ...best,
+      ...poolFields(values),
+      confidence: best.confidence * DISPUTED_CONFIDENCE_FACTOR,
+      sourcesAgreeing: 1,
+      quotes: values
+    }
+  }
+
+  // More agreeing sources raise confidence, dissenting ones pull it down
+  const combined = 1 - agreeing.reduce((miss, v) => miss * (1 - v.confidence), 1)
+  return {
+    ...agreeing[0],
+    ...poolFields(values),
+    price: median(agreeing.map(v => v.price)),
+    timestamp: Math.max(...agreeing.map(v => v.timestamp)),
+    confidence: combined * (agreeing.length / values.length),
+    sourcesAgreeing: agreeing.length,
+    quotes: values
+  }
+}
+
+/**
+ * Merge per-source prices by address. Consensus mode takes the median across
+ * sources and drops outliers, so one manipulated pool can't set the price.
+ */
+export function mergeLivePrices(results: PriceData[][], options: MergeOptions = {}): MergedPrice[] {
+  const mode = options.mode ?? 'consensus'
+  const maxDeviation = options.maxDeviation ?? DEFAULT_MAX_DEVIATION
+  const byAddress = new Map<string, PriceData[]>()
+
+  results.flat().forEach(price => {
+    if (!(price.price > 0)) return
+    const address = price.address.toLowerCase()
+    byAddress.set(address, [...(byAddress.get(address) ?? []), { ...price, address }])
+  })
+
+  return Array.from(byAddress.values()).map(quotes => {
+    if (mode === 'consensus') {
+      return mergeByConsensus(quotes, maxDeviation)
+    }
+
+    const ranked = collapseBySource(quotes).sort(rankPrice)
+    return { ...ranked[0], ...poolFields(ranked), sourcesAgreeing: 1, quotes: ranked }
+  })
+}
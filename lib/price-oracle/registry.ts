@@ -0,0 +1,97 @@
+import { mergeLivePrices, type MergeOptions } from './merge'
+import type { PriceData, PriceOracleResult, PriceSource, PriceSourceOutcome } from './types'
+
+const DEFAULT_TIMEOUT_MS = 5000
+
+async function runWithTimeout(
+  source: PriceSource,
+  addresses: string[],
+  signal: AbortSignal
+): Promise<PriceData[]> {
+  const controller = new AbortController()
+  const timeoutMs = source.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const abort = () => controller.abort()
+  signal.addEventListener('abort', abort)
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort()
+      reject(new Error(`${source.id} timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([source.getPrices(addresses, controller.signal), timeout])
+  } finally {
+    clearTimeout(timeoutId)
+    signal.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Asks every available source in parallel, each under its own timeout, then
+ * merges them into one price per token. Fallback-only sources get whatever is
+ * still unpriced.
+ */
+export function createPriceOracle(sources: PriceSource[], mergeOptions: MergeOptions = {}) {
+  const runSources = async (
+    active: PriceSource[],
+    addresses: string[],
+    signal: AbortSignal,
+    outcomes: PriceSourceOutcome[]
+  ): Promise<PriceData[][]> => {
+    const available = active.filter(source => {
+      const skip = !!source.isAvailable && !source.isAvailable()
+      if (skip) {
+        outcomes.push({ id: source.id, status: 'skipped', priceCount: 0, latencyMs: 0 })
+      }
+      return !skip
+    })
+
+    const settled = await Promise.allSettled(available.map(async source => {
+      const startedAt = Date.now()
+      try {
+        const prices = await runWithTimeout(source, addresses, signal)
+        outcomes.push({ id: source.id, status: 'fulfilled', priceCount: prices.length, latencyMs: Date.now() - startedAt })
+        return prices
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        outcomes.push({ id: source.id, status: 'rejected', priceCount: 0, latencyMs: Date.now() - startedAt, error: message })
+        throw error
+      }
+    }))
+
+    if (signal.aborted) {
+      throw new DOMException('Price fetch aborted', 'AbortError')
+    }
+
+    return settled
+      .filter((result): result is PromiseFulfilledResult<PriceData[]> => result.status === 'fulfilled')
+      .map(result => result.value)
+  }
+
+  const getPrices = async (addresses: string[], signal: AbortSignal): Promise<PriceOracleResult> => {
+    const normalized = Array.from(new Set(addresses.map(address => address.toLowerCase())))
+    const outcomes: PriceSourceOutcome[] = []
+
+    if (normalized.length === 0) {
+      return { prices: [], outcomes }
+    }
+
+    const results = await runSources(sources.filter(s => !s.fallbackOnly), normalized, signal, outcomes)
+
+    const priced = new Set(results.flat().filter(p => p.price > 0).map(p => p.address.toLowerCase()))
+    const unpriced = normalized.filter(address => !priced.has(address))
+
+    if (unpriced.length > 0) {
+      results.push(...await runSources(sources.filter(s => s.fallbackOnly), unpriced, signal, outcomes))
+    }
+
+    return { prices: mergeLivePrices(results, mergeOptions), outcomes }
+  }
+
+  return { getPrices, sources: sources.map(source => source.id) }
+}
+
+export type PriceOracle = ReturnType<typeof createPriceOracle>
@@ -0,0 +1,55 @@
+import { getUpstream } from '@/lib/upstream'
+import type { PriceData, PriceSource } from '../types'
+
+const CHUNK_SIZE = 15
+const TIMEOUT_MS = 10000
+// The shared bucket refills one token every 4s, so chunks that can't start
+// within half the source timeout fail fast and leave the rest time to fetch
+const MAX_QUEUE_MS = TIMEOUT_MS / 2
+
+export function createCoinGeckoSource(confidence = 0.85): PriceSource {
+  return {
+    id: 'coingecko',
+    confidence,
+    timeoutMs: TIMEOUT_MS,
+    getPrices: async (addresses, signal) => {
+      const chunks: string[][] = []
+      for (let i = 0; i < addresses.length; i += CHUNK_SIZE) {
+        chunks.push(addresses.slice(i, i + CHUNK_SIZE))
+      }
+
+      // The upstream client paces chunks to the free tier's rate limit and
+      // rejects the ones that would queue past MAX_QUEUE_MS
+      const results = await Promise.allSettled(chunks.map(async chunk => {
+        const response = await getUpstream('coingecko').request(
+          `https://api.coingecko.com/api/v3/simple/token_price/base?contract_addresses=${chunk.join(',')}&vs_currencies=usd`,
+          { signal, maxQueueMs: MAX_QUEUE_MS, timeoutMs: TIMEOUT_MS - MAX_QUEUE_MS }
+        )
+
+        if (!response.ok) {
+          throw new Error(`CoinGecko error: ${response.status}`)
+        }
+
+        const data: Record<string, { usd?: number }> = await response.json()
+        const now = Date.now()
+
+        return Object.entries(data)
+          .filter(([, priceData]) => (priceData.usd ?? 0) > 0)
+          .map(([address, priceData]): PriceData => ({
+            address: address.toLowerCase(),
+            price: priceData.usd!,
+            source: 'coingecko',
+            timestamp: now,
+            confidence
+          }))
+      }))
+
+      const fulfilled = results.filter((r): r is PromiseFulfilledResult<PriceData[]> => r.status === 'fulfilled')
+      if (fulfilled.length === 0 && results.length > 0) {
+        throw (results[0] as PromiseRejectedResult).reason
+      }
+
+      return fulfilled.flatMap(result => result.value)
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { BASE_DEPLOYMENT, type ContractAddresses } from '@/lib/deployments'
+import { getUpstream } from '@/lib/upstream'
+import type { PriceData, PriceSource } from '../types'
+
+// DexScreener accepts at most 30 addresses per request
+const CHUNK_SIZE = 30
+
+// SplitRouter swaps through Uniswap V3 into HIGHER, directly or via WETH
+const ROUTABLE_DEX_IDS = ['uniswap']
+
+/**
+ * Pairs SplitRouter could actually trade through. DexScreener doesn't report
+ * the fee tier, so a pool outside the router's 1% tier still passes here.
+ */
+export function isRoutablePair(pair: any, contracts: ContractAddresses = BASE_DEPLOYMENT.contracts): boolean {
+  const quoteTokens = [contracts.WETH, contracts.HIGHER_TOKEN].map(a => a.toLowerCase())
+  return pair.chainId === 'base' &&
+    ROUTABLE_DEX_IDS.includes(pair.dexId) &&
+    (pair.labels ?? []).includes('v3') &&
+    quoteTokens.includes(pair.quoteToken?.address?.toLowerCase())
+}
+
+export function createDexScreenerSource(confidence = 0.75, contracts: ContractAddresses = BASE_DEPLOYMENT.contracts): PriceSource {
+  return {
+    id: 'dexscreener',
+    confidence,
+    timeoutMs: 5000,
+    getPrices: async (addresses, signal) => {
+      const chunks: string[][] = []
+      for (let i = 0; i < addresses.length; i += CHUNK_SIZE) {
+        chunks.push(addresses.slice(i, i + CHUNK_SIZE))
+      }
+
+      const results = await Promise.allSettled(chunks.map(async chunk => {
+        const response = await getUpstream('dexscreener').request(`https://api.dexscreener.com/latest/dex/tokens/${chunk.join(',')}`, { signal })
+
+        if (!response.ok) {
+          throw new Error(`DexScreener error: ${response.status}`)
+        }
+
+        const data = await response.json()
+        const now = Date.now()
+        const prices: PriceData[] = []
+
+        // Every Base pair prices the token; the merge weights them by liquidity
+        // and reports the deepest routable one as the token's pool
+        ;(data.pairs ?? []).filter((pair: any) => pair.chainId === 'base').forEach((pair: any) => {
+          const address = pair.baseToken?.address?.toLowerCase()
+          const price = parseFloat(pair.priceUsd)
+
+          if (address && chunk.includes(address) && price > 0) {
+            prices.push({
+              address,
+              price,
+              source: 'dexscreener',
+              timestamp: now,
+              confidence,
+              liquidityUsd: pair.liquidity?.usd ?? 0,
+              dexId: pair.dexId,
+              pairAddress: pair.pairAddress?.toLowerCase(),
+              routable: isRoutablePair(pair, contracts)
+            })
+          }
+        })
+
+        return prices
+      }))
+
+      const fulfilled = results.filter((r): r is PromiseFulfilledResult<PriceData[]> => r.status === 'fulfilled')
+      if (fulfilled.length === 0 && results.length > 0) {
+        throw (results[0] as PromiseRejectedResult).reason
+      }
+
+      return fulfilled.flatMap(result => result.value)
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import type { MoralisClient } from '@/lib/moralis'
+import type { PriceSource } from '../types'
+
+/**
+ * Moralis prices one token per request, so it only fills gaps left by the
+ * batch sources. Server-side only, through the shared Moralis client.
+ */
+export function createMoralisPriceSource(client: MoralisClient, confidence = 0.7): PriceSource {
+  return {
+    id: 'moralis',
+    confidence,
+    timeoutMs: 15000,
+    fallbackOnly: true,
+    getPrices: async (addresses, signal) => {
+      const prices = await client.getTokenPrices(addresses, signal)
+      const now = Date.now()
+
+      return Array.from(prices.entries()).map(([address, price]) => ({
+        address,
+        price: price.usdPrice,
+        source: 'moralis',
+        timestamp: now,
+        confidence
+      }))
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { isAddress, parseEther, zeroAddress, type Address, type PublicClient } from 'viem'
+import {
+  CHAINLINK_AGGREGATOR_ABI,
+  ERC20_ABI,
+  UNISWAP_V3_FACTORY_ABI,
+  UNISWAP_V3_POOL_ABI
+} from '@/lib/contracts'
+import { BASE_DEPLOYMENT, type ContractAddresses } from '@/lib/deployments'
+import { MULTICALL3_ADDRESS } from '@/lib/multicall'
+import type { PriceData, PriceSource } from '../types'
+
+const FEE_TIERS = [100, 500, 3000, 10000] as const
+const WETH_DECIMALS = 18
+const DEFAULT_TWAP_SECONDS = 30 * 60
+
+// Pools holding less WETH than this are too cheap to move to be trusted
+const MIN_WETH_LIQUIDITY = parseEther('0.01')
+
+// Base ETH/USD heartbeat is 20 minutes; anything older means the feed is stuck
+const MAX_FEED_AGE_SECONDS = 60 * 60
+
+// Spot this far from the TWAP means someone is pushing the pool around
+const MAX_SPOT_TWAP_DEVIATION = 0.05
+
+export interface UniswapV3SourceOptions {
+  twapSeconds?: number
+  confidence?: number
+  // Pools to use instead of a factory lookup, keyed by lowercase token address
+  pinnedPools?: Record<string, Address>
+  // Factory, WETH and feed addresses; defaults to Base mainnet
+  contracts?: ContractAddresses
+}
+
+// The pool SplitRouter itself swaps into
+const defaultPinnedPools = (contracts: ContractAddresses): Record<string, Address> => ({
+  [contracts.HIGHER_TOKEN.toLowerCase()]: contracts.ETH_HIGHER_POOL
+})
+
+// Pool prices are token1 per token0 in raw units; convert to WETH per whole token
+function toWethPerToken(rawPrice: number, tokenIsToken0: boolean, tokenDecimals: number): number {
+  const wethPerRawToken = tokenIsToken0 ? rawPrice : 1 / rawPrice
+  return wethPerRawToken * 10 ** (tokenDecimals - WETH_DECIMALS)
+}
+
+function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): number {
+  const sqrtPrice = Number(sqrtPriceX96) / 2 ** 96
+  return sqrtPrice * sqrtPrice
+}
+
+async function readEthUsd(client: PublicClient, feed: Address): Promise<number> {
+  const [roundData, decimals] = await client.multicall({
+    contracts: [
+      { address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'latestRoundData' },
+      { address: feed, abi: CHAINLINK_AGGREGATOR_ABI, functionName: 'decimals' }
+    ],
+    allowFailure: false,
+    multicallAddress: MULTICALL3_ADDRESS
+  })
+
+  const [, answer, , updatedAt] = roundData
+  if (answer <= BigInt(0)) {
+    throw new Error('ETH/USD feed returned a non-positive answer')
+  }
+  if (Date.now() / 1000 - Number(updatedAt) > MAX_FEED_AGE_SECONDS) {
+    throw new Error('ETH/USD feed is stale')
+  }
+
+  return Number(answer) / 10 ** decimals
+}
+
+/**
+ * Prices tokens from their deepest Uniswap V3 WETH pool: TWAP via observe()
+ * (spot from slot0 when the pool has no history), converted to USD with the
+ * Chainlink ETH/USD feed. Every step is one multicall.
+ */
+export function createUniswapV3Source(client: PublicClient, options: UniswapV3SourceOptions = {}): PriceSource {
+  const twapSeconds = options.twapSeconds ?? DEFAULT_TWAP_SECONDS
+  const confidence = options.confidence ?? 0.9
+  const contracts = options.contracts ?? BASE_DEPLOYMENT.contracts
+  const pinnedPools = options.pinnedPools ?? defaultPinnedPools(contracts)
+  const weth = contracts.WETH.toLowerCase() as Address
+  const factory = contracts.UNISWAP_V3_FACTORY
+
+  const findDeepestPools = async (tokens: Address[]): Promise<Map<Address, Address>> => {
+    const pools = new Map<Address, Address>()
+    const unpinned = tokens.filter(token => {
+      const pinned = pinnedPools[token]
+      if (pinned && pinned !== zeroAddress) pools.set(token, pinned)
+      return !pools.has(token)
+    })
+
+    const lookups = await client.multicall({
+      contracts: unpinned.flatMap(token => FEE_TIERS.map(fee => ({
+        address: factory,
+        abi: UNISWAP_V3_FACTORY_ABI,
+        functionName: 'getPool' as const,
+        args: [token, weth, fee] as const
+      }))),
+      allowFailure: true,
+      multicallAddress: MULTICALL3_ADDRESS
+    })
+
+    const candidates = unpinned.flatMap((token, i) =>
+      FEE_TIERS
+        .map((_, j) => lookups[i * FEE_TIERS.length + j])
+        .filter(lookup => lookup.status === 'success' && lookup.result !== zeroAddress)
+        .map(lookup => ({ token, pool: lookup.result as Address }))
+    )
+
+    // Depth = WETH held by the pool, which is what a dust swap actually trades against
+    const depths = await client.multicall({
+      contracts: candidates.map(({ pool }) => ({
+        address: weth,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf' as const,
+        args: [pool] as const
+      })),
+      allowFailure: true,
+      multicallAddress: MULTICALL3_ADDRESS
+    })
+
+    const best = new Map<Address, bigint>()
+    candidates.forEach(({ token, pool }, i) => {
+      const depth = depths[i].status === 'success' ? depths[i].result as bigint : BigInt(0)
+      if (depth >= MIN_WETH_LIQUIDITY && depth > (best.get(token) ?? BigInt(0))) {
+        best.set(token, depth)
+        pools.set(token, pool)
+      }
+    })
+
+    return pools
+  }
+
+  return {
+    id: 'uniswap-v3',
+    confidence,
+    timeoutMs: 8000,
+    // Chains without a configured feed or factory can't be priced on-chain
+    isAvailable: () => factory !== zeroAddress && contracts.ETH_USD_PRICE_FEED !== zeroAddress,
+    getPrices: async (addresses) => {
+      const ethUsd = await readEthUsd(client, contracts.ETH_USD_PRICE_FEED)
+      const now = Date.now()
+      const prices: PriceData[] = []
+
+      const tokens = addresses.map(a => a.toLowerCase() as Address).filter(a => isAddress(a))
+
+      // Native ETH and WETH are the feed itself
+      tokens
+        .filter(token => token === weth || token === zeroAddress)
+        .forEach(address => prices.push({ address, price: ethUsd, source: 'uniswap-v3', timestamp: now, confidence }))
+
+      const erc20s = tokens.filter(token => token !== weth && token !== zeroAddress)
+      if (erc20s.length === 0) return prices
+
+      const pools = await findDeepestPools(erc20s)
+      const priced = erc20s.filter(token => pools.has(token))
+      if (priced.length === 0) return prices
+
+      const reads = await client.multicall({
+        contracts: priced.flatMap(token => [
+          { address: token, abi: ERC20_ABI, functionName: 'decimals' as const },
+          { address: pools.get(token)!, abi: UNISWAP_V3_POOL_ABI, functionName: 'slot0' as const },
+          { address: pools.get(token)!, abi: UNISWAP_V3_POOL_ABI, functionName: 'observe' as const, args: [[twapSeconds, 0]] as const }
+        ]),
+        allowFailure: true,
+        multicallAddress: MULTICALL3_ADDRESS
+      })
+
+      priced.forEach((token, i) => {
+        const [decimalsRead, slot0Read, observeRead] = reads.slice(i * 3, i * 3 + 3)
+        if (decimalsRead.status !== 'success' || slot0Read.status !== 'success') return
+
+        const decimals = Number(decimalsRead.result)
+        const tokenIsToken0 = token < weth
+        const [sqrtPriceX96] = slot0Read.result as readonly [bigint, ...unknown[]]
+        const spot = toWethPerToken(sqrtPriceX96ToPrice(sqrtPriceX96), tokenIsToken0, decimals)
+
+        let wethPrice = spot
+        let tokenConfidence = confidence * 0.5
+
+        // observe() reverts when the pool's history doesn't reach back far enough
+        if (observeRead.status === 'success') {
+          const [tickCumulatives] = observeRead.result as readonly [readonly bigint[], readonly bigint[]]
+          const tick = Math.floor(Number(tickCumulatives[1] - tickCumulatives[0]) / twapSeconds)
+          const twap = toWethPerToken(Math.pow(1.0001, tick), tokenIsToken0, decimals)
+          const deviation = Math.abs(spot - twap) / twap
+
+          wethPrice = twap
+          tokenConfidence = deviation <= MAX_SPOT_TWAP_DEVIATION ? confidence : confidence * 0.5
+        }
+
+        const price = wethPrice * ethUsd
+        if (isFinite(price) && price > 0) {
+          prices.push({ address: token, price, source: 'uniswap-v3', timestamp: now, confidence: tokenConfidence })
+        }
+      })
+
+      return prices
+    }
+  }
+}
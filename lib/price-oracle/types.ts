@@ -0,0 +1,49 @@
+// Shared types for pluggable token price sources
+
+export interface PriceData {
+  address: string
+  price: number
+  // Source id that supplied this price
+  source: string
+  timestamp: number
+  // 0-1, how far this price can be trusted
+  confidence: number
+  // Pool behind a DEX price; liquidity weights pairs against each other
+  liquidityUsd?: number
+  dexId?: string
+  pairAddress?: string
+  // Whether SplitRouter can swap through this pool
+  routable?: boolean
+}
+
+export interface PriceSource {
+  id: string
+  // Default confidence for prices from this source
+  confidence: number
+  timeoutMs?: number
+  // Only asked for addresses every other source failed to price
+  fallbackOnly?: boolean
+  // Sources without credentials opt out here instead of failing every call
+  isAvailable?: () => boolean
+  getPrices: (addresses: string[], signal: AbortSignal) => Promise<PriceData[]>
+}
+
+export interface PriceSourceOutcome {
+  id: string
+  status: 'fulfilled' | 'rejected' | 'skipped'
+  priceCount: number
+  latencyMs: number
+  error?: string
+}
+
+export interface MergedPrice extends PriceData {
+  // Sources within the deviation threshold of the consensus price
+  sourcesAgreeing: number
+  // One price per source, most confident first
+  quotes: PriceData[]
+}
+
+export interface PriceOracleResult {
+  prices: MergedPrice[]
+  outcomes: PriceSourceOutcome[]
+}
@@ -0,0 +1,18 @@
+import type { CacheEntry, CachePolicy } from './types'
+
+export function createEntry<T>(value: T, policy: CachePolicy, now = Date.now()): CacheEntry<T> {
+  const expiresAt = now + policy.ttlMs
+  return {
+    value,
+    storedAt: now,
+    expiresAt,
+    staleUntil: expiresAt + (policy.staleTtlMs ?? 0)
+  }
+}
+
+export const isFresh = (entry: CacheEntry<unknown>, now = Date.now()) => now < entry.expiresAt
+
+export const isUsable = (entry: CacheEntry<unknown>, now = Date.now()) => now < entry.staleUntil
+
+// How long a backend has to keep the entry around at all
+export const retentionMs = (policy: CachePolicy) => policy.ttlMs + (policy.staleTtlMs ?? 0)
@@ -0,0 +1,47 @@
+import { createHash, randomUUID } from 'crypto'
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { createEntry, isUsable } from './entry'
+import type { CacheAdapter, CacheEntry } from './types'
+
+/**
+ * One JSON file per key. Survives restarts on a single host; on Vercel /tmp
+ * is shared by warm invocations of the same instance.
+ */
+export function createFilesystemCache(directory = path.join(tmpdir(), 'swapdust-cache')): CacheAdapter {
+  let ready: Promise<unknown> | null = null
+  const ensureDirectory = () => (ready ??= mkdir(directory, { recursive: true }))
+
+  const fileFor = (key: string) =>
+    path.join(directory, `${createHash('sha1').update(key).digest('hex')}.json`)
+
+  const read = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+    try {
+      const entry: CacheEntry<T> = JSON.parse(await readFile(fileFor(key), 'utf8'))
+      if (isUsable(entry)) return entry
+      await rm(fileFor(key), { force: true })
+    } catch {
+      // Missing or half-written file - treat as a miss
+    }
+    return null
+  }
+
+  return {
+    name: 'filesystem',
+    get: read,
+    getMany: <T>(keys: string[]) => Promise.all(keys.map(key => read<T>(key))),
+    set: async (key, value, policy) => {
+      await ensureDirectory()
+      // Write then rename so readers never see a partial file
+      const file = fileFor(key)
+      // Unique per write: concurrent writes of one key would otherwise share the temp file
+      const temp = `${file}.${process.pid}.${randomUUID()}.tmp`
+      await writeFile(temp, JSON.stringify(createEntry(value, policy)))
+      await rename(temp, file)
+    },
+    delete: async (key) => {
+      await rm(fileFor(key), { force: true })
+    }
+  }
+}
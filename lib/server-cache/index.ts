@@ -0,0 +1,37 @@
+import { createFilesystemCache } from './filesystem'
+import { createMemoryCache } from './memory'
+import { createRedisRestCache } from './redis'
+import type { CacheAdapter } from './types'
+
+export * from './types'
+export { createEntry, isFresh, isUsable } from './entry'
+export { getOrLoad, revalidateInBackground, type CachedResult } from './swr'
+export { createFilesystemCache, createMemoryCache, createRedisRestCache }
+
+let serverCache: CacheAdapter | null = null
+
+/**
+ * Backend chosen by CACHE_BACKEND: "memory" (default), "filesystem" (CACHE_DIR)
+ * or "redis" (REDIS_REST_URL/REDIS_REST_TOKEN, or the Upstash equivalents).
+ */
+export function getServerCache(): CacheAdapter {
+  if (serverCache) return serverCache
+
+  const backend = process.env.CACHE_BACKEND || 'memory'
+  const redisUrl = process.env.REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL
+  const redisToken = process.env.REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN
+
+  if (backend === 'redis' && redisUrl && redisToken) {
+    serverCache = createRedisRestCache({ url: redisUrl, token: redisToken })
+  } else if (backend === 'filesystem') {
+    serverCache = createFilesystemCache(process.env.CACHE_DIR || undefined)
+  } else {
+    if (backend !== 'memory') {
+      console.warn(`⚠️ Cache backend "${backend}" is not configured, using memory`)
+    }
+    serverCache = createMemoryCache()
+  }
+
+  console.log(`🗄️ Server cache backend: ${serverCache.name}`)
+  return serverCache
+}
@@ -0,0 +1,39 @@
+import { createEntry, isUsable } from './entry'
+import type { CacheAdapter, CacheEntry } from './types'
+
+const DEFAULT_MAX_ENTRIES = 5000
+
+/**
+ * Per-instance cache. Lost on cold starts, but needs no setup.
+ */
+export function createMemoryCache(maxEntries = DEFAULT_MAX_ENTRIES): CacheAdapter {
+  const entries = new Map<string, CacheEntry<unknown>>()
+
+  const read = <T>(key: string): CacheEntry<T> | null => {
+    const entry = entries.get(key)
+    if (!entry) return null
+    if (!isUsable(entry)) {
+      entries.delete(key)
+      return null
+    }
+    return entry as CacheEntry<T>
+  }
+
+  return {
+    name: 'memory',
+    get: async (key) => read(key),
+    getMany: async (keys) => keys.map(key => read(key)),
+    set: async (key, value, policy) => {
+      // Re-insert so Map order tracks recency for eviction
+      entries.delete(key)
+      entries.set(key, createEntry(value, policy))
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+    delete: async (key) => {
+      entries.delete(key)
+    }
+  }
+}
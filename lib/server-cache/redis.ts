@@ -0,0 +1,66 @@
+import { createEntry, isUsable, retentionMs } from './entry'
+import type { CacheAdapter, CacheEntry } from './types'
+
+export interface RedisRestOptions {
+  url: string
+  token: string
+  // Namespaces keys when several apps share one database
+  prefix?: string
+}
+
+/**
+ * Redis over the Upstash-style REST API (POST a command array, read `result`),
+ * so it works from serverless functions without a TCP client.
+ */
+export function createRedisRestCache({ url, token, prefix = 'swapdust:' }: RedisRestOptions): CacheAdapter {
+  const baseUrl = url.replace(/\/$/, '')
+
+  const command = async <T>(args: (string | number)[]): Promise<T> => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(args),
+      cache: 'no-store'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Redis error: ${response.status}`)
+    }
+
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(`Redis error: ${data.error}`)
+    }
+    return data.result as T
+  }
+
+  const parse = <T>(raw: string | null): CacheEntry<T> | null => {
+    if (!raw) return null
+    try {
+      const entry: CacheEntry<T> = JSON.parse(raw)
+      return isUsable(entry) ? entry : null
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    name: 'redis',
+    get: async (key) => parse(await command<string | null>(['GET', prefix + key])),
+    getMany: async (keys) => {
+      if (keys.length === 0) return []
+      const raws = await command<(string | null)[]>(['MGET', ...keys.map(key => prefix + key)])
+      return raws.map(raw => parse(raw))
+    },
+    set: async (key, value, policy) => {
+      // Redis expires the key once even the stale window has passed
+      await command(['SET', prefix + key, JSON.stringify(createEntry(value, policy)), 'PX', retentionMs(policy)])
+    },
+    delete: async (key) => {
+      await command(['DEL', prefix + key])
+    }
+  }
+}
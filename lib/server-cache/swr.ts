@@ -0,0 +1,65 @@
+import { createEntry, isFresh } from './entry'
+import type { CacheAdapter, CachePolicy, CacheStatus } from './types'
+
+// One refresh per key at a time, per instance
+const revalidating = new Map<string, Promise<void>>()
+
+/**
+ * Run a refresh without holding up the response. Concurrent calls for the same
+ * key share one run; failures are logged and leave the stale entry in place.
+ */
+export function revalidateInBackground(key: string, refresh: () => Promise<void>): void {
+  if (revalidating.has(key)) return
+
+  const run = refresh()
+    .catch(error => console.warn(`⚠️ Background revalidation failed for ${key}:`, error))
+    .finally(() => revalidating.delete(key))
+
+  revalidating.set(key, run)
+}
+
+export interface CachedResult<T> {
+  value: T
+  status: CacheStatus
+  storedAt: number
+  expiresAt: number
+}
+
+/**
+ * Read-through cache with stale-while-revalidate: fresh entries are returned,
+ * stale ones are returned and refreshed in the background, misses load inline.
+ */
+export async function getOrLoad<T>(
+  cache: CacheAdapter,
+  key: string,
+  load: () => Promise<T>,
+  policy: CachePolicy,
+  // Results that shouldn't be cached, e.g. an empty list from a failed upstream
+  shouldCache: (value: T) => boolean = () => true
+): Promise<CachedResult<T>> {
+  const store = async (value: T) => {
+    if (shouldCache(value)) {
+      await cache.set(key, value, policy)
+    }
+  }
+
+  const entry = await cache.get<T>(key).catch(error => {
+    console.warn(`⚠️ Cache read failed (${cache.name}):`, error)
+    return null
+  })
+
+  if (entry) {
+    if (isFresh(entry)) {
+      return { value: entry.value, status: 'hit', storedAt: entry.storedAt, expiresAt: entry.expiresAt }
+    }
+
+    revalidateInBackground(key, async () => store(await load()))
+    return { value: entry.value, status: 'stale', storedAt: entry.storedAt, expiresAt: entry.expiresAt }
+  }
+
+  const value = await load()
+  await store(value).catch(error => console.warn(`⚠️ Cache write failed (${cache.name}):`, error))
+
+  const fresh = createEntry(value, policy)
+  return { value, status: 'miss', storedAt: fresh.storedAt, expiresAt: fresh.expiresAt }
+}
@@ -0,0 +1,26 @@
+// Shared types for the server-side cache backends used by the API routes
+
+export interface CacheEntry<T> {
+  value: T
+  storedAt: number
+  // Served as fresh until here
+  expiresAt: number
+  // Served as stale (while a refresh runs) until here, then dropped
+  staleUntil: number
+}
+
+export interface CachePolicy {
+  ttlMs: number
+  // Extra time past ttlMs an entry may be served while it is refreshed
+  staleTtlMs?: number
+}
+
+export interface CacheAdapter {
+  name: string
+  get: <T>(key: string) => Promise<CacheEntry<T> | null>
+  getMany: <T>(keys: string[]) => Promise<(CacheEntry<T> | null)[]>
+  set: <T>(key: string, value: T, policy: CachePolicy) => Promise<void>
+  delete: (key: string) => Promise<void>
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss'
@@ -11,6 +11,58 @@ export const strings = {
     selectAll: "Select All",
     deselectAll: "Deselect All",
     selected: "{count} of {total} tokens selected",
+    noRoutablePool: "No routable Uniswap V3 pool",
+    verified: "Verified: on a trusted token list",
+    showHidden: "Show {count} hidden (likely scams)",
+    hideRisky: "Hide likely scams",
+  },
+  risk: {
+    high: "Likely scam: {reasons}",
+    medium: "Use caution: {reasons}",
+    reasons: {
+      "url-like-name": "name contains a link",
+      "impersonator": "copies a listed token's symbol",
+      "transfer-blocked": "can't be sold",
+      "no-liquidity": "no liquidity",
+      "unverified": "not on a token list",
+      "flagged-spam": "flagged as spam",
+    },
+  },
+  unswappable: {
+    label: "Unswappable: {reason}",
+    reasons: {
+      "invalid-balance": "invalid balance",
+      "higher-token": "already HIGHER",
+      "below-minimum": "below the router minimum",
+      "zero-quote": "quotes to 0 HIGHER",
+      "quote-failed": "no quote",
+      "price-impact": "price impact too high",
+      "transfer-tax": "transfer tax",
+      "transfer-blocked": "transfers blocked",
+      "swap-reverted": "swap reverts",
+      "output-shortfall": "pays out less than quoted",
+      "simulation-failed": "reverts the batch",
+    },
+  },
+  contractErrors: {
+    "insufficient-output": "Price moved: expected at least {expected} but the swap returned {received}. Try a higher slippage.",
+    "amount-too-small": "{amount} is below the router's minimum swap amount",
+    "swap-output-zero": "The swap would return 0 HIGHER",
+    "insufficient-higher-balance": "The router is short of HIGHER: needs {required}, has {available}",
+    "arithmetic-overflow": "Amounts too large for the router to process",
+    "invalid-token": "Invalid token address",
+    "higher-to-higher": "HIGHER can't be swapped for HIGHER",
+    "array-length-mismatch": "Token and amount lists don't match",
+    "empty-batch": "No tokens to swap",
+    "insufficient-allowance": "Allowance too low: approved {allowance}, needs {needed}. Approve the router and try again.",
+    "insufficient-balance": "Balance too low: has {balance}, needs {needed}",
+    "invalid-spender": "Invalid spender {spender}",
+    "invalid-receiver": "Invalid receiver {receiver}",
+    "panic": "The contract panicked: {reason}",
+    "reverted": "The contract reverted: {reason}",
+    "user-rejected": "Transaction was rejected in the wallet",
+    "insufficient-funds": "Not enough ETH to pay for gas",
+    "unknown": "The contract rejected the transaction",
   },
   summary: {
     text: "Swapping {count} tokens worth ${value} → you keep 80% in $HIGHER, 20% grows liquidity",
@@ -21,6 +73,21 @@ export const strings = {
     netAfterFees: "Net ETH after 0.3% DEX fee",
     minReceived: "Minimum $HIGHER received",
     polShare: "Protocol-owned liquidity share",
+    slippage: "Slippage tolerance",
+    maxPriceImpact: "Max price impact",
+    deadline: "Quote deadline",
+  },
+  settings: {
+    title: "Settings",
+    slippage: "Slippage",
+    auto: "Auto",
+    custom: "Custom",
+    autoHint: "Auto picks 0.5%-10% from the measured price impact of each token",
+    highSlippage: "Slippage above {percent} makes this swap an easy target for sandwich bots",
+    maxPriceImpact: "Max price impact",
+    deadline: "Quote deadline",
+    deadlineHint: "Swaps are cancelled if the quote is older than this when submitted. The router's on-chain deadline stays fixed at 5 minutes.",
+    reset: "Reset",
   },
   button: {
     swap: "Swap & Receive $HIGHER",
@@ -0,0 +1,56 @@
+import { ERC20_ABI } from '@/lib/contracts'
+import { decodeContractError } from '@/lib/contract-errors'
+import type { SwapEngineContext } from './context'
+import { SwapEngineError, type SwapLeg, type SwapPlan } from './types'
+
+// Approve 0.1% above the swap amount so balance rounding never leaves the allowance short
+const APPROVAL_BUFFER_BPS = BigInt(10010)
+
+export async function readAllowance(context: SwapEngineContext, token: SwapLeg['address']): Promise<bigint> {
+  return context.publicClient.readContract({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [context.account, context.routerAddress]
+  })
+}
+
+/**
+ * Approve stage: make sure the router can pull every leg, waiting for each
+ * approval receipt instead of guessing with a fixed delay
+ */
+export async function approvePlan(context: SwapEngineContext, plan: SwapPlan): Promise<void> {
+  for (const leg of plan.legs) {
+    let allowance: bigint
+    try {
+      allowance = await readAllowance(context, leg.address)
+    } catch (error) {
+      throw new SwapEngineError('approve', `Could not read allowance for ${leg.symbol}`, { cause: error })
+    }
+
+    if (allowance >= leg.amount) continue
+
+    context.emit({ type: 'approval-required', leg, allowance })
+
+    try {
+      const hash = await context.walletClient.writeContract({
+        address: leg.address,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [context.routerAddress, (leg.amount * APPROVAL_BUFFER_BPS) / BigInt(10000)],
+        account: context.account,
+        chain: context.walletClient.chain
+      })
+      context.emit({ type: 'approval-submitted', leg, hash })
+
+      const receipt = await context.publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status !== 'success') {
+        throw new Error(`Approval transaction ${hash} reverted`)
+      }
+      context.emit({ type: 'approval-confirmed', leg, hash })
+    } catch (error) {
+      const { code, message } = decodeContractError(error, { token: leg })
+      throw new SwapEngineError('approve', `Failed to approve ${leg.symbol}: ${message}`, { cause: error, code })
+    }
+  }
+}
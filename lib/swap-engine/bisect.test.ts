@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { bisectLegs } from './bisect'
+
+// Rejects whenever the batch contains one of the bad legs
+const simulatorFailingOn = (bad: number[]) =>
+  vi.fn(async (legs: number[]) => {
+    const found = legs.find(leg => bad.includes(leg))
+    if (found !== undefined) throw new Error(`leg ${found} reverted`)
+  })
+
+const range = (n: number) => Array.from({ length: n }, (_, i) => i)
+
+describe('bisectLegs', () => {
+  it('isolates a single failing leg', async () => {
+    const simulate = simulatorFailingOn([5])
+    const result = await bisectLegs(range(8), new Error('batch reverted'), simulate)
+
+    expect(result.passing).toEqual([0, 1, 2, 3, 4, 6, 7])
+    expect(result.failing.map(f => f.leg)).toEqual([5])
+    expect(String(result.failing[0].error)).toContain('leg 5 reverted')
+    // Two halves per level down to the leg: 2 + 2 + 2
+    expect(simulate).toHaveBeenCalledTimes(6)
+  })
+
+  it('isolates several failing legs', async () => {
+    const result = await bisectLegs(range(10), new Error('batch reverted'), simulatorFailingOn([1, 8]))
+
+    expect(result.failing.map(f => f.leg)).toEqual([1, 8])
+    expect(result.passing).toEqual([0, 2, 3, 4, 5, 6, 7, 9])
+  })
+
+  it('drops a lone leg without simulating it again', async () => {
+    const simulate = simulatorFailingOn([0])
+    const error = new Error('batch reverted')
+    const result = await bisectLegs([0], error, simulate)
+
+    expect(result.failing).toEqual([{ leg: 0, error }])
+    expect(simulate).not.toHaveBeenCalled()
+  })
+
+  it('keeps legs that only fail together', async () => {
+    const simulate = vi.fn(async (legs: number[]) => {
+      if (legs.includes(0) && legs.includes(3)) throw new Error('conflict')
+    })
+    const result = await bisectLegs(range(4), new Error('conflict'), simulate)
+
+    expect(result.failing).toEqual([])
+    expect(result.passing).toEqual([0, 1, 2, 3])
+  })
+
+  it('stops after the simulation budget and drops what is left', async () => {
+    const simulate = simulatorFailingOn(range(200))
+    const result = await bisectLegs(range(200), new Error('batch reverted'), simulate)
+
+    expect(simulate.mock.calls.length).toBeLessThanOrEqual(32)
+    expect(result.passing).toEqual([])
+    expect(result.failing).toHaveLength(200)
+  })
+
+  it('replaces an empty rejection with an error', async () => {
+    const simulate = vi.fn(async (legs: number[]) => {
+      if (legs.includes(1)) throw undefined
+    })
+    const result = await bisectLegs(range(2), new Error('batch reverted'), simulate)
+
+    expect(result.failing[0].error).toBeInstanceOf(Error)
+  })
+})
@@ -0,0 +1,74 @@
+import { calculateMinReceive } from './min-receive'
+import type { QuotedLeg, SkippedToken, SwapQuote } from './types'
+
+// 20 legs with a single bad one take about 10 simulations; this bounds the worst case
+const MAX_BISECTION_SIMULATIONS = 32
+
+export interface BisectionResult<T> {
+  passing: T[]
+  failing: { leg: T; error: unknown }[]
+}
+
+/**
+ * Split a batch that fails to simulate into halves until the legs that revert
+ * on their own are isolated. `simulate` should reject when its legs revert.
+ * Legs that only fail together stay in `passing`, so callers re-simulate
+ * the result before trusting it.
+ */
+export async function bisectLegs<T>(legs: T[], firstError: unknown, simulate: (legs: T[]) => Promise<unknown>): Promise<BisectionResult<T>> {
+  const failing: BisectionResult<T>['failing'] = []
+  let simulations = 0
+
+  const tryLegs = async (group: T[]): Promise<unknown | undefined> => {
+    simulations++
+    try {
+      await simulate(group)
+      return undefined
+    } catch (error) {
+      return error ?? new Error('Simulation failed')
+    }
+  }
+
+  const visit = async (group: T[], error: unknown): Promise<void> => {
+    // Out of budget: the whole group failed together, so drop it as one
+    if (group.length === 1 || simulations >= MAX_BISECTION_SIMULATIONS) {
+      group.forEach(leg => failing.push({ leg, error }))
+      return
+    }
+
+    const middle = Math.ceil(group.length / 2)
+    for (const half of [group.slice(0, middle), group.slice(middle)]) {
+      // The budget can run out in the first half's subtree; don't test the second
+      if (simulations >= MAX_BISECTION_SIMULATIONS) {
+        half.forEach(leg => failing.push({ leg, error }))
+        continue
+      }
+
+      const halfError = await tryLegs(half)
+      if (halfError !== undefined) await visit(half, halfError)
+    }
+  }
+
+  await visit(legs, firstError)
+
+  const failed = new Set(failing.map(({ leg }) => leg))
+  return { passing: legs.filter(leg => !failed.has(leg)), failing }
+}
+
+/**
+ * The quote for what's left after dropping legs, at the same slippage and expiry
+ */
+export function requoteWithout(quote: SwapQuote, legs: QuotedLeg[], dropped: SkippedToken[]): SwapQuote {
+  const totalQuote = legs.reduce((sum, leg) => sum + leg.quote, BigInt(0))
+  const limits = calculateMinReceive(totalQuote, quote.slippageBps)
+
+  return {
+    ...quote,
+    legs,
+    skipped: quote.skipped.concat(dropped),
+    totalQuote,
+    minReceive: limits.minReceive,
+    expectedUserOut: limits.expectedUserOut,
+    minUserReceive: limits.minUserReceive
+  }
+}
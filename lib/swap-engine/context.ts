@@ -0,0 +1,56 @@
+import type { Address, PublicClient, WalletClient } from 'viem'
+import { SLIPPAGE_BPS } from '@/lib/contracts'
+import { getDeployment } from '@/lib/deployments'
+import { SwapEngineError, type SwapEngineConfig, type SwapEngineEvent } from './types'
+
+// Config with defaults applied, shared by every stage
+// Same window the router uses for its Uniswap calls
+const DEFAULT_DEADLINE_SECONDS = 300
+
+export interface SwapEngineContext {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  account: Address
+  routerAddress: Address
+  higherToken: Address
+  slippageBps: number
+  autoSlippage: boolean
+  maxPriceImpactBps?: number
+  deadlineSeconds: number
+  emit: (event: SwapEngineEvent) => void
+}
+
+/**
+ * Router and HIGHER addresses: the ones passed in, else the deployment for the
+ * public client's chain. Throws when neither is available.
+ */
+export function resolveRouterContracts(
+  config: Pick<SwapEngineConfig, 'publicClient' | 'routerAddress' | 'higherToken'>
+): { routerAddress: Address; higherToken: Address } {
+  const chainId = config.publicClient.chain?.id
+  const deployment = getDeployment(chainId)
+  const routerAddress = config.routerAddress ?? (deployment?.isDeployed ? deployment.contracts.SPLIT_ROUTER : undefined)
+  const higherToken = config.higherToken ?? (deployment?.isDeployed ? deployment.contracts.HIGHER_TOKEN : undefined)
+
+  if (!routerAddress || !higherToken) {
+    throw new SwapEngineError('plan', deployment
+      ? `SplitRouter is not deployed on ${deployment.chain.name}`
+      : `Unsupported chain ${chainId ?? 'unknown'}`)
+  }
+
+  return { routerAddress, higherToken }
+}
+
+export function createSwapEngineContext(config: SwapEngineConfig): SwapEngineContext {
+  return {
+    publicClient: config.publicClient,
+    walletClient: config.walletClient,
+    account: config.account,
+    ...resolveRouterContracts(config),
+    slippageBps: config.slippageBps ?? SLIPPAGE_BPS,
+    autoSlippage: config.autoSlippage ?? false,
+    maxPriceImpactBps: config.maxPriceImpactBps,
+    deadlineSeconds: config.deadlineSeconds ?? DEFAULT_DEADLINE_SECONDS,
+    emit: (event) => config.onEvent?.(event)
+  }
+}
@@ -0,0 +1,117 @@
+import { parseEventLogs, type Hash } from 'viem'
+import { SPLIT_ROUTER_ABI } from '@/lib/contracts'
+import { decodeContractError } from '@/lib/contract-errors'
+import { bisectLegs, requoteWithout } from './bisect'
+import type { SwapEngineContext } from './context'
+import { SwapEngineError, type SkippedToken, type SwapLeg, type SwapQuote, type SwapResult, type SwapSimulation } from './types'
+
+function assertQuoteFresh(stage: 'simulate' | 'execute', quote: SwapQuote) {
+  if (Date.now() > quote.expiresAt) {
+    throw new SwapEngineError(stage, 'Quote expired - please review the new quote and try again')
+  }
+}
+
+function bulkSwapArgs(quote: SwapQuote) {
+  return [quote.legs.map(leg => leg.address), quote.legs.map(leg => leg.amount), quote.minReceive] as const
+}
+
+function estimateBulkSwapGas(context: SwapEngineContext, legs: SwapLeg[], minReceive: bigint) {
+  return context.publicClient.estimateContractGas({
+    address: context.routerAddress,
+    abi: SPLIT_ROUTER_ABI,
+    functionName: 'executeBulkSwap',
+    args: [legs.map(leg => leg.address), legs.map(leg => leg.amount), minReceive],
+    account: context.account
+  })
+}
+
+/**
+ * Simulate stage: estimate gas for the exact executeBulkSwap call so reverts
+ * surface before the wallet prompt. When the batch reverts, bisect it to find
+ * the legs that revert on their own, drop them and carry on with the rest.
+ */
+export async function simulateSwap(context: SwapEngineContext, quote: SwapQuote): Promise<SwapSimulation> {
+  assertQuoteFresh('simulate', quote)
+
+  let batchError: unknown
+  try {
+    const gas = await estimateBulkSwapGas(context, quote.legs, quote.minReceive)
+    return { quote, gas }
+  } catch (error) {
+    batchError = error
+  }
+
+  const fail = (error: unknown): never => {
+    const { code, message } = decodeContractError(error, quote.legs.length === 1 ? { token: quote.legs[0] } : {})
+    throw new SwapEngineError('simulate', `Gas estimation failed: ${message}`, { cause: error, code })
+  }
+
+  if (quote.legs.length < 2) return fail(batchError)
+
+  // minReceive 0 while bisecting: we're looking for reverting tokens, not slippage
+  const { passing, failing } = await bisectLegs(quote.legs, batchError, legs => estimateBulkSwapGas(context, legs, BigInt(0)))
+
+  // Nothing isolated (slippage, gas...) or nothing left to swap
+  if (failing.length === 0 || passing.length === 0) return fail(batchError)
+
+  const dropped = failing.map(({ leg, error }): SkippedToken => {
+    const { code, message } = decodeContractError(error, { token: leg })
+    return { address: leg.address, symbol: leg.symbol, reason: 'simulation-failed', detail: message, code }
+  })
+  dropped.forEach(token => context.emit({ type: 'token-skipped', token }))
+
+  const reduced = requoteWithout(quote, passing, dropped)
+  context.emit({ type: 'bisected', dropped, quote: reduced })
+
+  try {
+    const gas = await estimateBulkSwapGas(context, reduced.legs, reduced.minReceive)
+    return { quote: reduced, gas }
+  } catch (error) {
+    return fail(error)
+  }
+}
+
+/**
+ * Execute stage: submit executeBulkSwap through the wallet
+ */
+export async function executeSwap(context: SwapEngineContext, simulation: SwapSimulation): Promise<Hash> {
+  assertQuoteFresh('execute', simulation.quote)
+
+  try {
+    return await context.walletClient.writeContract({
+      address: context.routerAddress,
+      abi: SPLIT_ROUTER_ABI,
+      functionName: 'executeBulkSwap',
+      args: bulkSwapArgs(simulation.quote),
+      account: context.account,
+      chain: context.walletClient.chain
+    })
+  } catch (error) {
+    const { code, message } = decodeContractError(error)
+    throw new SwapEngineError('execute', `Swap failed: ${message}`, { cause: error, code })
+  }
+}
+
+/**
+ * Confirm stage: wait for the receipt and read the bought amount back from BulkSwapExecuted
+ */
+export async function confirmSwap(context: SwapEngineContext, hash: Hash, quote: SwapQuote): Promise<SwapResult> {
+  const receipt = await context.publicClient.waitForTransactionReceipt({ hash })
+
+  if (receipt.status !== 'success') {
+    throw new SwapEngineError('confirm', `Swap transaction ${hash} reverted`)
+  }
+
+  const [bulkSwapEvent] = parseEventLogs({
+    abi: SPLIT_ROUTER_ABI,
+    eventName: 'BulkSwapExecuted',
+    logs: receipt.logs
+  })
+
+  return {
+    hash,
+    receipt,
+    quote,
+    totalAmountOut: bulkSwapEvent?.args.totalAmountOut
+  }
+}
@@ -0,0 +1,95 @@
+import { createSwapEngineContext } from './context'
+import { buildSwapPlan } from './plan'
+import { approvePlan } from './approvals'
+import { quotePlan } from './quotes'
+import { confirmSwap, executeSwap, simulateSwap } from './execution'
+import { SwapEngineError } from './types'
+import type { SwapEngineConfig, SwapPlan, SwapQuote, SwapResult, SwapSimulation, SwapTokenInput } from './types'
+import type { Hash } from 'viem'
+
+export * from './types'
+export { buildSwapPlan, getBalanceWei, getMinimumAmount, getSafeSwapAmount } from './plan'
+export { preflightTokens } from './preflight'
+export {
+  AUTO_SLIPPAGE_MAX_BPS,
+  AUTO_SLIPPAGE_MIN_BPS,
+  calculateMinReceive,
+  calculatePriceImpactBps,
+  resolveAutoSlippageBps,
+  type MinReceive
+} from './min-receive'
+
+export interface SwapEngine {
+  plan: (tokens: SwapTokenInput[]) => SwapPlan
+  approve: (plan: SwapPlan) => Promise<void>
+  quote: (plan: SwapPlan) => Promise<SwapQuote>
+  simulate: (quote: SwapQuote) => Promise<SwapSimulation>
+  execute: (simulation: SwapSimulation) => Promise<Hash>
+  confirm: (hash: Hash, quote: SwapQuote) => Promise<SwapResult>
+  // plan → approve → quote → simulate → execute → confirm
+  run: (tokens: SwapTokenInput[]) => Promise<SwapResult>
+}
+
+/**
+ * Headless swap pipeline for the SplitRouter. Every stage is exposed on its own
+ * so other frontends can drive the flow step by step; progress is reported
+ * through onEvent rather than toasts or logs.
+ */
+export function createSwapEngine(config: SwapEngineConfig): SwapEngine {
+  const context = createSwapEngineContext(config)
+
+  const plan = (tokens: SwapTokenInput[]) => {
+    context.emit({ type: 'stage', stage: 'plan' })
+    const swapPlan = buildSwapPlan(tokens, context.higherToken)
+    swapPlan.skipped.forEach(token => context.emit({ type: 'token-skipped', token }))
+    return swapPlan
+  }
+
+  const approve = async (swapPlan: SwapPlan) => {
+    context.emit({ type: 'stage', stage: 'approve' })
+    await approvePlan(context, swapPlan)
+  }
+
+  const quote = async (swapPlan: SwapPlan) => {
+    context.emit({ type: 'stage', stage: 'quote' })
+    const swapQuote = await quotePlan(context, swapPlan)
+    context.emit({ type: 'quoted', quote: swapQuote })
+    return swapQuote
+  }
+
+  const simulate = async (swapQuote: SwapQuote) => {
+    context.emit({ type: 'stage', stage: 'simulate' })
+    const simulation = await simulateSwap(context, swapQuote)
+    context.emit({ type: 'simulated', simulation })
+    return simulation
+  }
+
+  const execute = async (simulation: SwapSimulation) => {
+    context.emit({ type: 'stage', stage: 'execute' })
+    const hash = await executeSwap(context, simulation)
+    context.emit({ type: 'submitted', hash })
+    return hash
+  }
+
+  const confirm = async (hash: Hash, swapQuote: SwapQuote) => {
+    context.emit({ type: 'stage', stage: 'confirm' })
+    const result = await confirmSwap(context, hash, swapQuote)
+    context.emit({ type: 'confirmed', result })
+    return result
+  }
+
+  const run = async (tokens: SwapTokenInput[]) => {
+    const swapPlan = plan(tokens)
+    if (swapPlan.legs.length === 0) {
+      throw new SwapEngineError('plan', 'No tokens have sufficient amounts for swapping. Please add more tokens or increase amounts.')
+    }
+
+    await approve(swapPlan)
+    const swapQuote = await quote(swapPlan)
+    const simulation = await simulate(swapQuote)
+    const hash = await execute(simulation)
+    return confirm(hash, swapQuote)
+  }
+
+  return { plan, approve, quote, simulate, execute, confirm, run }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { SLIPPAGE_BPS } from '@/lib/contracts'
+import {
+  AUTO_SLIPPAGE_MAX_BPS,
+  AUTO_SLIPPAGE_MIN_BPS,
+  calculateMinReceive,
+  calculatePriceImpactBps,
+  resolveAutoSlippageBps
+} from './min-receive'
+
+describe('calculateMinReceive', () => {
+  it('takes slippage off the quoted output', () => {
+    const limits = calculateMinReceive(BigInt(10000), 300)
+
+    expect(limits.expectedOut).toBe(BigInt(10000))
+    expect(limits.minReceive).toBe(BigInt(9700))
+  })
+
+  it('reports the 80% user share of both amounts', () => {
+    const limits = calculateMinReceive(BigInt(10000), 300)
+
+    expect(limits.expectedUserOut).toBe(BigInt(8000))
+    expect(limits.minUserReceive).toBe(BigInt(7760))
+  })
+
+  it('rounds minReceive down', () => {
+    expect(calculateMinReceive(BigInt(999), 1).minReceive).toBe(BigInt(998))
+  })
+
+  it('defaults to SLIPPAGE_BPS', () => {
+    expect(calculateMinReceive(BigInt(10000)).slippageBps).toBe(SLIPPAGE_BPS)
+  })
+
+  it('accepts zero slippage', () => {
+    expect(calculateMinReceive(BigInt(10000), 0).minReceive).toBe(BigInt(10000))
+  })
+
+  it('rejects slippage outside [0, 10000) bps', () => {
+    expect(() => calculateMinReceive(BigInt(10000), -1)).toThrow('Invalid slippage')
+    expect(() => calculateMinReceive(BigInt(10000), 10000)).toThrow('Invalid slippage')
+    expect(() => calculateMinReceive(BigInt(10000), 2.5)).toThrow('Invalid slippage')
+  })
+})
+
+describe('calculatePriceImpactBps', () => {
+  it('measures the shortfall against the reference rate', () => {
+    // 1% of the amount quotes 10, so the full amount should quote 1000
+    expect(calculatePriceImpactBps(BigInt(10000), BigInt(950), BigInt(100), BigInt(10))).toBe(500)
+  })
+
+  it('is zero when the full amount quotes at or above the reference rate', () => {
+    expect(calculatePriceImpactBps(BigInt(10000), BigInt(1000), BigInt(100), BigInt(10))).toBe(0)
+    expect(calculatePriceImpactBps(BigInt(10000), BigInt(1200), BigInt(100), BigInt(10))).toBe(0)
+  })
+
+  it('is zero without a usable reference quote', () => {
+    expect(calculatePriceImpactBps(BigInt(10000), BigInt(950), BigInt(0), BigInt(10))).toBe(0)
+    expect(calculatePriceImpactBps(BigInt(10000), BigInt(950), BigInt(100), BigInt(0))).toBe(0)
+  })
+})
+
+describe('resolveAutoSlippageBps', () => {
+  it('allows twice the worst price impact', () => {
+    expect(resolveAutoSlippageBps([40, 150, 90])).toBe(300)
+  })
+
+  it('never goes below the minimum', () => {
+    expect(resolveAutoSlippageBps([])).toBe(AUTO_SLIPPAGE_MIN_BPS)
+    expect(resolveAutoSlippageBps([0, 10])).toBe(AUTO_SLIPPAGE_MIN_BPS)
+  })
+
+  it('caps at the maximum', () => {
+    expect(resolveAutoSlippageBps([4000])).toBe(AUTO_SLIPPAGE_MAX_BPS)
+  })
+})
@@ -0,0 +1,62 @@
+import { SLIPPAGE_BPS, SPLIT_80_BPS } from '@/lib/contracts'
+
+const BPS_DENOMINATOR = BigInt(10000)
+
+// Auto slippage bounds: 0.5% for liquid pools up to 10% for illiquid dust
+export const AUTO_SLIPPAGE_MIN_BPS = 50
+export const AUTO_SLIPPAGE_MAX_BPS = 1000
+
+export interface MinReceive {
+  slippageBps: number
+  // Summed router quotes - HIGHER bought before the 80/18/2 split
+  expectedOut: bigint
+  // Passed to executeBulkSwap, which checks it against the pre-split total
+  minReceive: bigint
+  // What actually lands in the user's wallet (80% share)
+  expectedUserOut: bigint
+  minUserReceive: bigint
+}
+
+/**
+ * Derive minReceive from the quoted HIGHER output instead of the raw input
+ * amounts, which mix tokens with different decimals and mean nothing in HIGHER
+ */
+export function calculateMinReceive(expectedOut: bigint, slippageBps: number = SLIPPAGE_BPS): MinReceive {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= 10000) {
+    throw new Error(`Invalid slippage: ${slippageBps} bps`)
+  }
+
+  const minReceive = (expectedOut * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR
+  const userShare = BigInt(SPLIT_80_BPS)
+
+  return {
+    slippageBps,
+    expectedOut,
+    minReceive,
+    expectedUserOut: (expectedOut * userShare) / BPS_DENOMINATOR,
+    minUserReceive: (minReceive * userShare) / BPS_DENOMINATOR
+  }
+}
+
+/**
+ * Compare the rate for the full amount against a 1% reference amount. The pool
+ * fee applies to both, so the difference is the price impact of the leg.
+ */
+export function calculatePriceImpactBps(amount: bigint, quote: bigint, referenceAmount: bigint, referenceQuote: bigint): number {
+  if (referenceAmount <= BigInt(0) || referenceQuote <= BigInt(0)) return 0
+
+  // Reference output scaled up to the full amount at the reference rate
+  const idealQuote = (referenceQuote * amount) / referenceAmount
+  if (idealQuote <= quote) return 0
+
+  return Number(((idealQuote - quote) * BPS_DENOMINATOR) / idealQuote)
+}
+
+/**
+ * Auto mode: allow twice the worst measured price impact, since the pools that
+ * move most on our own trade are the ones most likely to move before it lands
+ */
+export function resolveAutoSlippageBps(priceImpactsBps: number[]): number {
+  const worstImpact = priceImpactsBps.reduce((max, impact) => Math.max(max, impact), 0)
+  return Math.min(AUTO_SLIPPAGE_MAX_BPS, Math.max(AUTO_SLIPPAGE_MIN_BPS, worstImpact * 2))
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { buildSwapPlan, getMinimumAmount, getSafeSwapAmount } from './plan'
+
+const HIGHER = '0x0578d8a44db98b23bf096a382e016e29a5ce0ffe'
+const TOKEN_A = '0x1111111111111111111111111111111111111111'
+const TOKEN_B = '0x2222222222222222222222222222222222222222'
+const ONE = BigInt('1000000000000000000')
+
+const token = (address: string, balance: bigint, decimals = 18) =>
+  ({ address, symbol: address.slice(2, 6).toUpperCase(), decimals, balance })
+
+describe('getSafeSwapAmount', () => {
+  it('leaves 0.01% of the balance behind', () => {
+    expect(getSafeSwapAmount(BigInt(10000000000))).toBe(BigInt(9999000000))
+  })
+
+  it('leaves 100,000 wei behind when 0.01% rounds to zero', () => {
+    expect(getSafeSwapAmount(BigInt(5000))).toBe(BigInt(0))
+    expect(getSafeSwapAmount(BigInt(9999))).toBe(BigInt(0))
+  })
+
+  it('never goes negative', () => {
+    expect(getSafeSwapAmount(BigInt(0))).toBe(BigInt(0))
+    expect(getSafeSwapAmount(BigInt(1))).toBe(BigInt(0))
+  })
+})
+
+describe('buildSwapPlan', () => {
+  it('builds one leg per token with the safe amount', () => {
+    const plan = buildSwapPlan([token(TOKEN_A, ONE), token(TOKEN_B, BigInt(5000000), 6)], HIGHER)
+
+    expect(plan.skipped).toEqual([])
+    expect(plan.legs.map(leg => leg.amount)).toEqual([BigInt('999900000000000000'), BigInt(4999500)])
+    expect(plan.legs.map(leg => leg.decimals)).toEqual([18, 6])
+  })
+
+  it('checksums leg addresses', () => {
+    const plan = buildSwapPlan([token('0x' + 'ab'.repeat(20), ONE)], HIGHER)
+    expect(plan.legs[0].address).toBe('0xABaBaBaBABabABabAbAbABAbABabababaBaBABaB')
+  })
+
+  it('drops duplicate addresses regardless of case', () => {
+    const plan = buildSwapPlan([token(TOKEN_A, ONE), token(TOKEN_A.toUpperCase().replace('0X', '0x'), BigInt(1))], HIGHER)
+    expect(plan.legs).toHaveLength(1)
+    expect(plan.skipped).toEqual([])
+  })
+
+  it('skips HIGHER itself', () => {
+    const plan = buildSwapPlan([token(HIGHER.toUpperCase().replace('0X', '0x'), ONE)], HIGHER)
+    expect(plan.legs).toEqual([])
+    expect(plan.skipped.map(s => s.reason)).toEqual(['higher-token'])
+  })
+
+  it('skips empty balances', () => {
+    const plan = buildSwapPlan([{ address: TOKEN_A, symbol: 'A', decimals: 18, balanceFormatted: '0' }], HIGHER)
+    expect(plan.skipped.map(s => s.reason)).toEqual(['invalid-balance'])
+  })
+
+  it('falls back to the formatted balance', () => {
+    const plan = buildSwapPlan([{ address: TOKEN_A, symbol: 'A', decimals: 6, balanceFormatted: '2.5' }], HIGHER)
+    expect(plan.legs[0].amount).toBe(getSafeSwapAmount(BigInt(2500000)))
+  })
+
+  it('skips amounts below the router minimum', () => {
+    const minimum = getMinimumAmount(18)
+    const plan = buildSwapPlan([token(TOKEN_A, minimum)], HIGHER)
+
+    expect(plan.legs).toEqual([])
+    expect(plan.skipped.map(s => s.reason)).toEqual(['below-minimum'])
+  })
+})
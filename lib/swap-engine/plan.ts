@@ -0,0 +1,95 @@
+import { formatUnits, getAddress, parseUnits } from 'viem'
+import type { SkippedToken, SwapLeg, SwapPlan, SwapTokenInput } from './types'
+
+/**
+ * Mirrors SplitRouter._getMinimumAmount - anything smaller reverts with AmountTooSmall
+ */
+export function getMinimumAmount(decimals: number): bigint {
+  if (decimals >= 18) return BigInt('100000000000000') // 0.0001 tokens
+  if (decimals >= 12) return BigInt('100000000') // 0.1 tokens
+  if (decimals >= 6) return BigInt('100000') // 0.1 tokens
+  return BigInt('100') // 1 token
+}
+
+/**
+ * Resolve a token's raw balance, preferring the exact bigint over the formatted string
+ */
+export function getBalanceWei(token: SwapTokenInput): bigint {
+  if (token.balance && token.balance > BigInt(0)) {
+    return token.balance
+  }
+
+  const formatted = token.balanceFormatted || '0'
+  const value = parseFloat(formatted)
+  if (isNaN(value) || value <= 0) {
+    return BigInt(0)
+  }
+
+  return parseUnits(formatted, token.decimals)
+}
+
+/**
+ * Leave 0.01% of the balance (or 100,000 wei) behind so rounding in the
+ * detected balance never makes transferFrom exceed what the wallet holds
+ */
+export function getSafeSwapAmount(balanceWei: bigint): bigint {
+  const safetyReduction = balanceWei / BigInt(10000) || BigInt(100000)
+  return balanceWei > safetyReduction ? balanceWei - safetyReduction : BigInt(0)
+}
+
+/**
+ * Plan stage: build the token/amount legs in one pass so the arrays handed to
+ * executeBulkSwap can never drift out of order
+ */
+export function buildSwapPlan(tokens: SwapTokenInput[], higherToken: string): SwapPlan {
+  const legs: SwapLeg[] = []
+  const skipped: SkippedToken[] = []
+  const seen = new Set<string>()
+
+  for (const token of tokens) {
+    const key = token.address.toLowerCase()
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    if (key === higherToken.toLowerCase()) {
+      skipped.push({
+        address: token.address,
+        symbol: token.symbol,
+        reason: 'higher-token',
+        detail: 'Cannot swap HIGHER to HIGHER'
+      })
+      continue
+    }
+
+    const amount = getSafeSwapAmount(getBalanceWei(token))
+    if (amount <= BigInt(0)) {
+      skipped.push({
+        address: token.address,
+        symbol: token.symbol,
+        reason: 'invalid-balance',
+        detail: `Invalid balance: ${token.balanceFormatted ?? '0'}`
+      })
+      continue
+    }
+
+    const minimum = getMinimumAmount(token.decimals)
+    if (amount < minimum) {
+      skipped.push({
+        address: token.address,
+        symbol: token.symbol,
+        reason: 'below-minimum',
+        detail: `need ≥${formatUnits(minimum, token.decimals)}`
+      })
+      continue
+    }
+
+    legs.push({
+      address: getAddress(token.address),
+      symbol: token.symbol,
+      decimals: token.decimals,
+      amount
+    })
+  }
+
+  return { legs, skipped }
+}
@@ -0,0 +1,139 @@
+import { erc20Abi, formatUnits, parseEther, type Address } from 'viem'
+import { SPLIT_80_BPS, SPLIT_ROUTER_ABI } from '@/lib/contracts'
+import { decodeContractError } from '@/lib/contract-errors'
+import { resolveRouterContracts } from './context'
+import { buildSwapPlan } from './plan'
+import type { PreflightConfig, PreflightResult, SwapLeg, SwapTokenInput } from './types'
+
+const BPS_DENOMINATOR = BigInt(10000)
+const DEFAULT_MAX_SHORTFALL_BPS = 500
+const DEFAULT_MAX_TOKENS = 30
+const CONCURRENCY = 3
+
+// Dust wallets often hold no ETH; the simulations shouldn't fail on gas
+const GAS_BALANCE_OVERRIDE = parseEther('1')
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+/**
+ * Simulate each token's executeSwap before the user selects it, so taxed and
+ * blocked tokens are flagged instead of reverting the whole bulk swap.
+ *
+ * Runs two eth_simulateV1 bundles per token from the wallet: a transfer into
+ * the router to measure transfer tax, then approve + getSwapQuote +
+ * executeSwap(minReceive 0) with the user's HIGHER balance read around it.
+ * The wallet's real balance is used; the allowance comes from the approve in
+ * the same bundle, which works for any token's storage layout.
+ */
+export async function preflightTokens(config: PreflightConfig, tokens: SwapTokenInput[]): Promise<PreflightResult[]> {
+  const { publicClient, account, signal } = config
+  const { routerAddress, higherToken } = resolveRouterContracts(config)
+  const maxShortfallBps = BigInt(config.maxShortfallBps ?? DEFAULT_MAX_SHORTFALL_BPS)
+  const stateOverrides = [{ address: account, balance: GAS_BALANCE_OVERRIDE }]
+
+  const plan = buildSwapPlan(tokens.slice(0, config.maxTokens ?? DEFAULT_MAX_TOKENS), higherToken)
+  const results: PreflightResult[] = plan.skipped.map(token => ({
+    address: token.address,
+    symbol: token.symbol,
+    status: 'unswappable',
+    reason: token.reason,
+    detail: token.detail
+  }))
+
+  // Balance delta of a transfer into the router, in bps of the amount sent
+  const measureTransferTax = async (leg: SwapLeg): Promise<number | 'blocked'> => {
+    const { results: [before, transfer, after] } = await publicClient.simulateCalls({
+      account,
+      stateOverrides,
+      calls: [
+        { to: leg.address, abi: erc20Abi, functionName: 'balanceOf', args: [routerAddress] },
+        { to: leg.address, abi: erc20Abi, functionName: 'transfer', args: [routerAddress, leg.amount] },
+        { to: leg.address, abi: erc20Abi, functionName: 'balanceOf', args: [routerAddress] }
+      ]
+    })
+
+    if (transfer.status !== 'success' || transfer.result === false) return 'blocked'
+    if (before.status !== 'success' || after.status !== 'success') return 0
+
+    const received = (after.result as bigint) - (before.result as bigint)
+    if (received >= leg.amount) return 0
+    return Number(((leg.amount - received) * BPS_DENOMINATOR) / leg.amount)
+  }
+
+  const simulateSwap = async (leg: SwapLeg) => {
+    const { results: [before, , quote, swap, after] } = await publicClient.simulateCalls({
+      account,
+      stateOverrides,
+      calls: [
+        { to: higherToken, abi: erc20Abi, functionName: 'balanceOf', args: [account] },
+        { to: leg.address, abi: erc20Abi, functionName: 'approve', args: [routerAddress, leg.amount] },
+        { to: routerAddress, abi: SPLIT_ROUTER_ABI, functionName: 'getSwapQuote', args: [leg.address, leg.amount] },
+        { to: routerAddress, abi: SPLIT_ROUTER_ABI, functionName: 'executeSwap', args: [leg.address, leg.amount, BigInt(0)] },
+        { to: higherToken, abi: erc20Abi, functionName: 'balanceOf', args: [account] }
+      ]
+    })
+
+    return {
+      swapError: swap.status === 'success' ? undefined : swap.error,
+      quotedOut: quote.status === 'success' ? quote.result as bigint : undefined,
+      receivedOut: before.status === 'success' && after.status === 'success'
+        ? (after.result as bigint) - (before.result as bigint)
+        : undefined
+    }
+  }
+
+  const check = async (leg: SwapLeg): Promise<PreflightResult> => {
+    const base = { address: leg.address, symbol: leg.symbol }
+
+    try {
+      const tax = await measureTransferTax(leg)
+      if (tax === 'blocked') {
+        return { ...base, status: 'unswappable', reason: 'transfer-blocked', detail: `${leg.symbol} can't be transferred` }
+      }
+
+      const { swapError, quotedOut, receivedOut } = await simulateSwap(leg)
+
+      if (swapError) {
+        const { code, message } = decodeContractError(swapError, { token: leg })
+        // The router swaps the full amountIn, so any transfer tax leaves it short
+        return tax > 0
+          ? { ...base, status: 'unswappable', reason: 'transfer-tax', code, transferTaxBps: tax, quotedOut, detail: `${(tax / 100).toFixed(2)}% transfer tax` }
+          : { ...base, status: 'unswappable', reason: 'swap-reverted', code, quotedOut, detail: message }
+      }
+
+      // The user gets 80% of what the router bought
+      const expectedOut = quotedOut !== undefined ? (quotedOut * BigInt(SPLIT_80_BPS)) / BPS_DENOMINATOR : undefined
+      if (expectedOut && receivedOut !== undefined && receivedOut * BPS_DENOMINATOR < expectedOut * (BPS_DENOMINATOR - maxShortfallBps)) {
+        const shortfallBps = Number(((expectedOut - receivedOut) * BPS_DENOMINATOR) / expectedOut)
+        return {
+          ...base,
+          status: 'unswappable',
+          reason: 'output-shortfall',
+          transferTaxBps: tax,
+          quotedOut,
+          receivedOut,
+          detail: `receives ${(shortfallBps / 100).toFixed(2)}% less than quoted (${formatUnits(receivedOut, 18)} HIGHER)`
+        }
+      }
+
+      return { ...base, status: 'swappable', transferTaxBps: tax, quotedOut, receivedOut }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      // Usually an RPC without eth_simulateV1; say nothing rather than guess
+      return { ...base, status: 'unknown', detail: errorMessage(error) }
+    }
+  }
+
+  const queue = plan.legs.slice()
+  const worker = async () => {
+    for (let leg = queue.shift(); leg; leg = queue.shift()) {
+      if (signal?.aborted) {
+        throw new DOMException('Swap pre-flight aborted', 'AbortError')
+      }
+      results.push(await check(leg))
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker))
+  return results
+}
@@ -0,0 +1,107 @@
+import type { PublicClient } from 'viem'
+import { describe, expect, it, vi } from 'vitest'
+import type { SwapEngineContext } from './context'
+import { quotePlan } from './quotes'
+import { SwapEngineError, type SwapEngineEvent, type SwapLeg, type SwapPlan } from './types'
+
+const ONE = BigInt('1000000000000000000')
+
+const leg = (n: number, amount = ONE): SwapLeg => ({
+  address: `0x${String(n).repeat(40)}`,
+  symbol: `T${n}`,
+  decimals: 18,
+  amount
+})
+
+// quoteFor answers getSwapQuote per token and amount; throwing rejects that call
+function createContext(quoteFor: (leg: SwapLeg) => bigint, overrides: Partial<SwapEngineContext> = {}) {
+  const events: SwapEngineEvent[] = []
+  const simulateContract = vi.fn(async ({ args }: { args: [string, bigint] }) => {
+    const [address, amount] = args
+    return { result: quoteFor({ ...leg(0), address: address as SwapLeg['address'], amount }) }
+  })
+
+  const context: SwapEngineContext = {
+    publicClient: { simulateContract } as unknown as PublicClient,
+    walletClient: {} as SwapEngineContext['walletClient'],
+    account: '0x9999999999999999999999999999999999999999',
+    routerAddress: '0x8888888888888888888888888888888888888888',
+    higherToken: '0x7777777777777777777777777777777777777777',
+    slippageBps: 300,
+    autoSlippage: false,
+    deadlineSeconds: 300,
+    emit: event => events.push(event),
+    ...overrides
+  }
+
+  return { context, events, simulateContract }
+}
+
+const plan = (...legs: SwapLeg[]): SwapPlan => ({ legs, skipped: [] })
+
+describe('quotePlan', () => {
+  it('sums the leg quotes and applies slippage', async () => {
+    const { context } = createContext(() => BigInt(1000))
+    const quote = await quotePlan(context, plan(leg(1), leg(2)))
+
+    expect(quote.totalQuote).toBe(BigInt(2000))
+    expect(quote.slippageBps).toBe(300)
+    expect(quote.minReceive).toBe(BigInt(1940))
+    expect(quote.expectedUserOut).toBe(BigInt(1600))
+    expect(quote.expiresAt - quote.quotedAt).toBe(300 * 1000)
+  })
+
+  it('skips legs that quote to zero or fail', async () => {
+    const { context, events } = createContext(({ address }) => {
+      if (address === leg(2).address) return BigInt(0)
+      if (address === leg(3).address) throw new Error('execution reverted')
+      return BigInt(1000)
+    })
+
+    const quote = await quotePlan(context, plan(leg(1), leg(2), leg(3)))
+
+    expect(quote.legs.map(l => l.symbol)).toEqual(['T1'])
+    expect(quote.skipped.map(s => [s.symbol, s.reason])).toEqual([['T2', 'zero-quote'], ['T3', 'quote-failed']])
+    expect(events.filter(e => e.type === 'token-skipped')).toHaveLength(2)
+  })
+
+  it('throws a quote-stage error when no leg quotes', async () => {
+    const { context } = createContext(() => BigInt(0))
+    const error = await quotePlan(context, plan(leg(1))).catch(e => e)
+
+    expect(error).toBeInstanceOf(SwapEngineError)
+    expect(error.stage).toBe('quote')
+  })
+
+  it('does not measure price impact unless asked to', async () => {
+    const { context, simulateContract } = createContext(() => BigInt(1000))
+    const quote = await quotePlan(context, plan(leg(1)))
+
+    expect(simulateContract).toHaveBeenCalledTimes(1)
+    expect(quote.legs[0].priceImpactBps).toBeUndefined()
+  })
+
+  it('skips legs above the price impact limit', async () => {
+    // The 1% reference quotes at twice the full amount's rate: 50% impact
+    const quoteFor = ({ address, amount }: SwapLeg) =>
+      address === leg(2).address && amount === ONE ? BigInt(500) : amount / BigInt('1000000000000000')
+    const { context } = createContext(quoteFor, { maxPriceImpactBps: 1000 })
+
+    const quote = await quotePlan(context, plan(leg(1), leg(2)))
+
+    expect(quote.legs.map(l => [l.symbol, l.priceImpactBps])).toEqual([['T1', 0]])
+    expect(quote.skipped.map(s => [s.symbol, s.reason])).toEqual([['T2', 'price-impact']])
+  })
+
+  it('derives slippage from the worst impact in auto mode', async () => {
+    // 2% impact on the only leg, so auto slippage allows 4%
+    const quoteFor = ({ amount }: SwapLeg) => amount === ONE ? BigInt(980) : BigInt(10)
+    const { context } = createContext(quoteFor, { autoSlippage: true })
+
+    const quote = await quotePlan(context, plan(leg(1)))
+
+    expect(quote.legs[0].priceImpactBps).toBe(200)
+    expect(quote.slippageBps).toBe(400)
+    expect(quote.minReceive).toBe(BigInt(940))
+  })
+})
@@ -0,0 +1,109 @@
+import { formatUnits } from 'viem'
+import { SPLIT_ROUTER_ABI } from '@/lib/contracts'
+import { decodeContractError } from '@/lib/contract-errors'
+import type { SwapEngineContext } from './context'
+import { calculateMinReceive, calculatePriceImpactBps, resolveAutoSlippageBps } from './min-receive'
+import { SwapEngineError, type QuotedLeg, type SkippedToken, type SwapLeg, type SwapPlan, type SwapQuote } from './types'
+
+function skipLeg(context: SwapEngineContext, skipped: SkippedToken[], leg: SwapLeg, reason: SkippedToken['reason'], detail: string, code?: SkippedToken['code']) {
+  const token: SkippedToken = { address: leg.address, symbol: leg.symbol, reason, detail, code }
+  skipped.push(token)
+  context.emit({ type: 'token-skipped', token })
+}
+
+export async function quoteLeg(context: SwapEngineContext, leg: SwapLeg): Promise<bigint> {
+  // getSwapQuote is nonpayable (it calls the Uniswap quoter), so it has to go through eth_call simulation
+  const { result } = await context.publicClient.simulateContract({
+    address: context.routerAddress,
+    abi: SPLIT_ROUTER_ABI,
+    functionName: 'getSwapQuote',
+    args: [leg.address, leg.amount],
+    account: context.account
+  })
+  return result
+}
+
+// Price impact is measured against a quote for 1% of the leg
+const REFERENCE_AMOUNT_DIVISOR = BigInt(100)
+
+async function measurePriceImpact(context: SwapEngineContext, leg: SwapLeg, quote: bigint): Promise<number | undefined> {
+  const referenceAmount = leg.amount / REFERENCE_AMOUNT_DIVISOR
+  if (referenceAmount === BigInt(0)) return undefined
+
+  try {
+    const referenceQuote = await quoteLeg(context, { ...leg, amount: referenceAmount })
+    return calculatePriceImpactBps(leg.amount, quote, referenceAmount, referenceQuote)
+  } catch {
+    // A failed reference quote shouldn't drop a leg that quoted fine
+    return undefined
+  }
+}
+
+/**
+ * Quote stage: price every leg through the router and drop the ones that
+ * would produce nothing, so a single unroutable token doesn't sink the batch
+ */
+export async function quotePlan(context: SwapEngineContext, plan: SwapPlan): Promise<SwapQuote> {
+  const legs: QuotedLeg[] = []
+  const skipped: SkippedToken[] = [...plan.skipped]
+
+  const results = await Promise.allSettled(plan.legs.map(leg => quoteLeg(context, leg)))
+
+  const measureImpact = context.autoSlippage || context.maxPriceImpactBps !== undefined
+
+  for (let index = 0; index < results.length; index++) {
+    const result = results[index]
+    const leg = plan.legs[index]
+
+    if (result.status === 'rejected') {
+      const { code, message } = decodeContractError(result.reason, { token: leg })
+      skipLeg(context, skipped, leg, 'quote-failed', message, code)
+      continue
+    }
+
+    if (result.value === BigInt(0)) {
+      skipLeg(context, skipped, leg, 'zero-quote',
+        `${formatUnits(leg.amount, leg.decimals)} ${leg.symbol} quotes to 0 HIGHER`)
+      continue
+    }
+
+    const priceImpactBps = measureImpact ? await measurePriceImpact(context, leg, result.value) : undefined
+
+    if (priceImpactBps !== undefined && context.maxPriceImpactBps !== undefined && priceImpactBps > context.maxPriceImpactBps) {
+      skipLeg(context, skipped, leg, 'price-impact',
+        `price impact ${(priceImpactBps / 100).toFixed(2)}% exceeds ${(context.maxPriceImpactBps / 100).toFixed(2)}%`)
+      continue
+    }
+
+    legs.push({ ...leg, quote: result.value, priceImpactBps })
+  }
+
+  if (legs.length === 0) {
+    throw new SwapEngineError('quote', 'No tokens have sufficient amounts for swapping. Please add more tokens or increase amounts.')
+  }
+
+  const quotedAt = Date.now()
+  const totalQuote = legs.reduce((sum, leg) => sum + leg.quote, BigInt(0))
+
+  let limits
+  try {
+    const slippageBps = context.autoSlippage
+      ? resolveAutoSlippageBps(legs.map(leg => leg.priceImpactBps ?? 0))
+      : context.slippageBps
+    limits = calculateMinReceive(totalQuote, slippageBps)
+  } catch (error) {
+    throw new SwapEngineError('quote', error instanceof Error ? error.message : String(error), { cause: error })
+  }
+
+  return {
+    legs,
+    skipped,
+    totalQuote,
+    slippageBps: limits.slippageBps,
+    minReceive: limits.minReceive,
+    expectedUserOut: limits.expectedUserOut,
+    minUserReceive: limits.minUserReceive,
+    quotedAt,
+    expiresAt: quotedAt + context.deadlineSeconds * 1000
+  }
+}
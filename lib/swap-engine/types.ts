@@ -0,0 +1,162 @@
+import type { Address, Hash, PublicClient, TransactionReceipt, WalletClient } from 'viem'
+import type { ContractErrorCode } from '@/lib/contract-errors'
+
+// Stages run in this order by SwapEngine.run()
+export type SwapStage = 'plan' | 'approve' | 'quote' | 'simulate' | 'execute' | 'confirm'
+
+// Minimal token shape the engine needs - TokenInfo from the detection hook satisfies it
+export interface SwapTokenInput {
+  address: string
+  symbol: string
+  decimals: number
+  balance?: bigint
+  balanceFormatted?: string
+}
+
+export interface SwapLeg {
+  address: Address
+  symbol: string
+  decimals: number
+  amount: bigint
+}
+
+export type SkipReason =
+  | 'invalid-balance'
+  | 'higher-token'
+  | 'below-minimum'
+  | 'zero-quote'
+  | 'quote-failed'
+  | 'price-impact'
+  // Isolated by bisection as the leg that made executeBulkSwap revert
+  | 'simulation-failed'
+
+export interface SkippedToken {
+  address: string
+  symbol: string
+  reason: SkipReason
+  detail: string
+  // Set when the skip came from a contract revert
+  code?: ContractErrorCode
+}
+
+export interface SwapPlan {
+  legs: SwapLeg[]
+  skipped: SkippedToken[]
+}
+
+export interface QuotedLeg extends SwapLeg {
+  quote: bigint
+  // Only measured when auto slippage or a price impact limit is configured
+  priceImpactBps?: number
+}
+
+export interface SwapQuote {
+  legs: QuotedLeg[]
+  skipped: SkippedToken[]
+  totalQuote: bigint
+  slippageBps: number
+  minReceive: bigint
+  // 80% user share of totalQuote / minReceive
+  expectedUserOut: bigint
+  minUserReceive: bigint
+  quotedAt: number
+  // The router hard-codes its own on-chain deadline, so staleness is enforced before submitting
+  expiresAt: number
+}
+
+export interface SwapSimulation {
+  quote: SwapQuote
+  gas: bigint
+}
+
+export interface SwapResult {
+  hash: Hash
+  receipt: TransactionReceipt
+  quote: SwapQuote
+  // Total HIGHER bought before the 80/18/2 split, from the BulkSwapExecuted event
+  totalAmountOut?: bigint
+}
+
+export type SwapEngineEvent =
+  | { type: 'stage'; stage: SwapStage }
+  | { type: 'token-skipped'; token: SkippedToken }
+  | { type: 'approval-required'; leg: SwapLeg; allowance: bigint }
+  | { type: 'approval-submitted'; leg: SwapLeg; hash: Hash }
+  | { type: 'approval-confirmed'; leg: SwapLeg; hash: Hash }
+  | { type: 'quoted'; quote: SwapQuote }
+  // Legs dropped after the batch simulation failed; quote covers what's left
+  | { type: 'bisected'; dropped: SkippedToken[]; quote: SwapQuote }
+  | { type: 'simulated'; simulation: SwapSimulation }
+  | { type: 'submitted'; hash: Hash }
+  | { type: 'confirmed'; result: SwapResult }
+
+export interface SwapEngineConfig {
+  publicClient: PublicClient
+  walletClient: WalletClient
+  account: Address
+  // Default to getDeployment() for publicClient's chain
+  routerAddress?: Address
+  higherToken?: Address
+  // Defaults to SLIPPAGE_BPS from lib/contracts
+  slippageBps?: number
+  // Derive slippage from the measured price impact instead of slippageBps
+  autoSlippage?: boolean
+  maxPriceImpactBps?: number
+  // How long a quote may be used for simulate/execute
+  deadlineSeconds?: number
+  onEvent?: (event: SwapEngineEvent) => void
+}
+
+// Pre-flight verdicts from simulating executeSwap per token before selection
+export type PreflightStatus = 'swappable' | 'unswappable' | 'unknown'
+
+export type UnswappableReason =
+  // Skipped by the plan (dust below the router minimum, HIGHER itself...)
+  | SkipReason
+  // Transfers into the router arrive short, so the router's swap of amountIn reverts
+  | 'transfer-tax'
+  // The token refuses to move at all
+  | 'transfer-blocked'
+  | 'swap-reverted'
+  // The swap went through but paid out far less than quoted
+  | 'output-shortfall'
+
+export interface PreflightResult {
+  address: string
+  symbol: string
+  status: PreflightStatus
+  reason?: UnswappableReason
+  detail?: string
+  code?: ContractErrorCode
+  // Share of a transfer into the router lost on the way, in bps
+  transferTaxBps?: number
+  quotedOut?: bigint
+  // User share actually received in the simulation
+  receivedOut?: bigint
+}
+
+export interface PreflightConfig {
+  publicClient: PublicClient
+  account: Address
+  // Same defaults as SwapEngineConfig
+  routerAddress?: Address
+  higherToken?: Address
+  // Received-vs-quoted gap tolerated before a token counts as taxed on the way out
+  maxShortfallBps?: number
+  // eth_simulateV1 calls per token are two; cap how many tokens are checked
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export class SwapEngineError extends Error {
+  readonly stage: SwapStage
+  // Decoded from the underlying revert or wallet error, when there was one
+  readonly code?: ContractErrorCode
+
+  constructor(stage: SwapStage, message: string, options?: { cause?: unknown; code?: ContractErrorCode }) {
+    super(message, options)
+    this.name = 'SwapEngineError'
+    this.stage = stage
+    this.code = options?.code
+  }
+}
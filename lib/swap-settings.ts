@@ -0,0 +1,83 @@
+// User swap settings (slippage, price impact, deadline) persisted per wallet
+
+import { SLIPPAGE_BPS } from '@/lib/contracts'
+
+export type SlippageMode = 'auto' | 'custom'
+
+export interface SwapSettings {
+  slippageMode: SlippageMode
+  // Used when slippageMode is 'custom'
+  slippageBps: number
+  // Legs whose quote moves the pool more than this are dropped
+  maxPriceImpactBps: number
+  // How long a quote stays valid before the swap must be re-quoted
+  deadlineMinutes: number
+}
+
+export const SLIPPAGE_PRESETS_BPS = [50, 100, 300, 1000] as const
+
+// Capped at the auto ceiling; anything wider mostly pays sandwich bots
+export const SLIPPAGE_LIMITS = { min: 1, max: 1000 } as const
+// Custom slippage above this gets a warning in the settings panel
+export const SLIPPAGE_WARNING_BPS = 500
+export const PRICE_IMPACT_LIMITS = { min: 10, max: 5000 } as const
+export const DEADLINE_LIMITS = { min: 1, max: 60 } as const
+
+export const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  // Auto is opt-in; the configured SLIPPAGE_BPS applies until the user picks it
+  slippageMode: 'custom',
+  slippageBps: SLIPPAGE_BPS,
+  maxPriceImpactBps: 1500, // 15%
+  deadlineMinutes: 5 // Matches the router's own block.timestamp + 300
+}
+
+const STORAGE_PREFIX = 'swapdust:settings:'
+
+const clamp = (value: unknown, limits: { min: number; max: number }, fallback: number): number => {
+  const num = typeof value === 'number' ? value : parseFloat(String(value))
+  if (!isFinite(num)) return fallback
+  return Math.min(limits.max, Math.max(limits.min, Math.round(num)))
+}
+
+// Coerce anything read from storage (or typed by the user) into valid settings
+export function sanitizeSwapSettings(value: Partial<SwapSettings> | null | undefined): SwapSettings {
+  return {
+    slippageMode: value?.slippageMode === 'auto' ? 'auto' : 'custom',
+    slippageBps: clamp(value?.slippageBps, SLIPPAGE_LIMITS, DEFAULT_SWAP_SETTINGS.slippageBps),
+    maxPriceImpactBps: clamp(value?.maxPriceImpactBps, PRICE_IMPACT_LIMITS, DEFAULT_SWAP_SETTINGS.maxPriceImpactBps),
+    deadlineMinutes: clamp(value?.deadlineMinutes, DEADLINE_LIMITS, DEFAULT_SWAP_SETTINGS.deadlineMinutes)
+  }
+}
+
+export function getSwapSettingsKey(address: string): string {
+  return `${STORAGE_PREFIX}${address.toLowerCase()}`
+}
+
+export function loadSwapSettings(address: string | undefined): SwapSettings {
+  if (!address || typeof window === 'undefined') {
+    return DEFAULT_SWAP_SETTINGS
+  }
+
+  try {
+    const stored = window.localStorage.getItem(getSwapSettingsKey(address))
+    return stored ? sanitizeSwapSettings(JSON.parse(stored)) : DEFAULT_SWAP_SETTINGS
+  } catch (error) {
+    console.warn('⚠️ Failed to load swap settings:', error)
+    return DEFAULT_SWAP_SETTINGS
+  }
+}
+
+export function saveSwapSettings(address: string | undefined, settings: SwapSettings): void {
+  if (!address || typeof window === 'undefined') return
+
+  try {
+    window.localStorage.setItem(getSwapSettingsKey(address), JSON.stringify(sanitizeSwapSettings(settings)))
+  } catch (error) {
+    console.warn('⚠️ Failed to save swap settings:', error)
+  }
+}
+
+// Format basis points as a percentage label, e.g. 50 -> "0.5%"
+export function formatBps(bps: number): string {
+  return `${parseFloat((bps / 100).toFixed(2))}%`
+}
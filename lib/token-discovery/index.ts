@@ -0,0 +1,81 @@
+import { createAlchemyProvider } from './providers/alchemy'
+import { createBlockscoutProvider } from './providers/blockscout'
+import { createCovalentProvider } from './providers/covalent'
+import { createIndexerProvider } from './providers/indexer'
+import { createMoralisProvider } from './providers/moralis'
+import { createRpcLogProvider } from './providers/rpc-logs'
+import type { MoralisClient } from '@/lib/moralis'
+import type { TokenDiscoveryProvider } from './types'
+
+export * from './types'
+export { createDiscoveryRegistry, getHealthScore, mergeDiscoveredTokens, type DiscoveryRegistry } from './registry'
+export {
+  createAlchemyProvider,
+  createBlockscoutProvider,
+  createCovalentProvider,
+  createIndexerProvider,
+  createMoralisProvider,
+  createRpcLogProvider
+}
+
+export type DiscoveryProviderId = 'indexer' | 'moralis' | 'alchemy' | 'covalent' | 'blockscout' | 'rpc'
+
+// Moralis and the other keyed APIs run server-side in /api/wallet/[address]/dust;
+// the browser only needs the log scan
+const DEFAULT_PROVIDER_IDS: DiscoveryProviderId[] = ['rpc']
+
+// The server has no wallet RPC scan, but can use every keyed API
+const DEFAULT_SERVER_PROVIDER_IDS: DiscoveryProviderId[] = ['indexer', 'moralis', 'alchemy', 'covalent', 'blockscout']
+
+/**
+ * Provider ids from NEXT_PUBLIC_TOKEN_DISCOVERY_PROVIDERS, e.g. "alchemy,blockscout,rpc".
+ * List order becomes the priority order.
+ */
+export function getDiscoveryProviderIds(
+  configured = process.env.NEXT_PUBLIC_TOKEN_DISCOVERY_PROVIDERS,
+  defaults = DEFAULT_PROVIDER_IDS
+): DiscoveryProviderId[] {
+  if (!configured) return defaults
+
+  const known: DiscoveryProviderId[] = ['indexer', 'moralis', 'alchemy', 'covalent', 'blockscout', 'rpc']
+  const ids = configured
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is DiscoveryProviderId => {
+      const isKnown = known.includes(id as DiscoveryProviderId)
+      if (!isKnown && id) console.warn(`⚠️ Unknown token discovery provider: ${id}`)
+      return isKnown
+    })
+
+  return ids.length > 0 ? ids : defaults
+}
+
+/**
+ * Provider ids for server routes, from TOKEN_DISCOVERY_PROVIDERS
+ */
+export function getServerDiscoveryProviderIds(): DiscoveryProviderId[] {
+  return getDiscoveryProviderIds(process.env.TOKEN_DISCOVERY_PROVIDERS, DEFAULT_SERVER_PROVIDER_IDS)
+}
+
+export interface ConfiguredProviderOptions {
+  // The RPC log scan needs the hook's public client and wallet
+  rpcScan?: Parameters<typeof createRpcLogProvider>[0]
+  // Server routes only - see getMoralisClient()
+  moralis?: MoralisClient | null
+  // Defaults to getDiscoveryProviderIds()
+  ids?: DiscoveryProviderId[]
+}
+
+export function createConfiguredProviders(options: ConfiguredProviderOptions = {}): TokenDiscoveryProvider[] {
+  return (options.ids ?? getDiscoveryProviderIds()).flatMap((id, index): TokenDiscoveryProvider[] => {
+    const priority = (index + 1) * 10
+    switch (id) {
+      case 'indexer': return [createIndexerProvider(priority)]
+      case 'moralis': return options.moralis ? [createMoralisProvider(options.moralis, priority)] : []
+      case 'alchemy': return [createAlchemyProvider(priority)]
+      case 'covalent': return [createCovalentProvider(priority)]
+      case 'blockscout': return [createBlockscoutProvider(priority)]
+      case 'rpc': return options.rpcScan ? [createRpcLogProvider(options.rpcScan, priority)] : []
+    }
+  })
+}
@@ -0,0 +1,59 @@
+import type { TokenDiscoveryProvider } from '../types'
+
+// ALCHEMY_API_KEY is only visible to server routes
+const getAlchemyUrl = () => {
+  const apiKey = process.env.ALCHEMY_API_KEY
+  return apiKey ? `https://base-mainnet.g.alchemy.com/v2/${apiKey}` : null
+}
+
+/**
+ * alchemy_getTokenBalances with the "erc20" spec, paged via pageKey.
+ * Balances only - metadata is filled in by the on-chain lookup.
+ */
+export function createAlchemyProvider(priority = 20): TokenDiscoveryProvider {
+  return {
+    id: 'alchemy',
+    priority,
+    timeoutMs: 10000,
+    isAvailable: () => !!getAlchemyUrl(),
+    discover: async (walletAddress, signal) => {
+      const url = getAlchemyUrl()!
+      const balances: { contractAddress: string; tokenBalance: string | null }[] = []
+      let pageKey: string | undefined
+
+      do {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            jsonrpc: '2.0',
+            id: 1,
+            method: 'alchemy_getTokenBalances',
+            params: [walletAddress, 'erc20', ...(pageKey ? [{ pageKey }] : [])]
+          }),
+          signal
+        })
+
+        if (!response.ok) {
+          throw new Error(`Alchemy error: ${response.status}`)
+        }
+
+        const data = await response.json()
+        if (data.error) {
+          throw new Error(`Alchemy error: ${data.error.message}`)
+        }
+
+        balances.push(...(data.result?.tokenBalances ?? []))
+        pageKey = data.result?.pageKey
+      } while (pageKey)
+
+      return balances
+        .filter(entry => entry.tokenBalance && BigInt(entry.tokenBalance) > BigInt(0))
+        .map(entry => ({
+          address: entry.contractAddress.toLowerCase(),
+          balance: BigInt(entry.tokenBalance!),
+          source: 'alchemy'
+        }))
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { TokenDiscoveryProvider } from '../types'
+
+const DEFAULT_BLOCKSCOUT_URL = 'https://base.blockscout.com'
+
+/**
+ * Blockscout v2 token-balances - public, no key needed
+ */
+export function createBlockscoutProvider(priority = 40): TokenDiscoveryProvider {
+  const baseUrl = (process.env.NEXT_PUBLIC_BLOCKSCOUT_URL || DEFAULT_BLOCKSCOUT_URL).replace(/\/$/, '')
+
+  return {
+    id: 'blockscout',
+    priority,
+    timeoutMs: 10000,
+    discover: async (walletAddress, signal) => {
+      const response = await fetch(`${baseUrl}/api/v2/addresses/${walletAddress}/token-balances`, { signal })
+
+      if (!response.ok) {
+        throw new Error(`Blockscout error: ${response.status}`)
+      }
+
+      const items: any[] = await response.json()
+
+      return items
+        .filter(item => item.token?.type === 'ERC-20' && item.value && BigInt(item.value) > BigInt(0))
+        .map(item => ({
+          address: item.token.address.toLowerCase(),
+          balance: BigInt(item.value),
+          symbol: item.token.symbol ?? undefined,
+          name: item.token.name ?? undefined,
+          decimals: item.token.decimals ? parseInt(item.token.decimals) : undefined,
+          logo: item.token.icon_url ?? null,
+          source: 'blockscout'
+        }))
+    }
+  }
+}
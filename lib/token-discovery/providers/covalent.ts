@@ -0,0 +1,42 @@
+import type { TokenDiscoveryProvider } from '../types'
+
+// COVALENT_API_KEY is only visible to server routes
+const getCovalentKey = () => process.env.COVALENT_API_KEY
+
+export function createCovalentProvider(priority = 30): TokenDiscoveryProvider {
+  return {
+    id: 'covalent',
+    priority,
+    timeoutMs: 12000,
+    isAvailable: () => !!getCovalentKey(),
+    discover: async (walletAddress, signal) => {
+      const response = await fetch(
+        `https://api.covalenthq.com/v1/base-mainnet/address/${walletAddress}/balances_v2/?no-nft-fetch=true`,
+        {
+          headers: { Authorization: `Bearer ${getCovalentKey()}` },
+          signal
+        }
+      )
+
+      if (!response.ok) {
+        throw new Error(`Covalent error: ${response.status}`)
+      }
+
+      const data = await response.json()
+      const items: any[] = data.data?.items ?? []
+
+      return items
+        .filter(item => item.type !== 'nft' && !item.native_token && item.balance && BigInt(item.balance) > BigInt(0))
+        .map(item => ({
+          address: item.contract_address.toLowerCase(),
+          balance: BigInt(item.balance),
+          symbol: item.contract_ticker_symbol ?? undefined,
+          name: item.contract_name ?? undefined,
+          decimals: item.contract_decimals ?? undefined,
+          logo: item.logo_url ?? null,
+          possibleSpam: item.is_spam === true,
+          source: 'covalent'
+        }))
+    }
+  }
+}
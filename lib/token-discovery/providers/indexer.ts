@@ -0,0 +1,36 @@
+import type { TokenDiscoveryProvider } from '../types'
+
+/**
+ * Self-hosted indexer. GET {url}/{wallet} must return
+ * [{ address, balance, symbol?, name?, decimals? }] with balance as a decimal string.
+ */
+export function createIndexerProvider(priority = 5): TokenDiscoveryProvider {
+  const baseUrl = process.env.NEXT_PUBLIC_TOKEN_INDEXER_URL?.replace(/\/$/, '')
+
+  return {
+    id: 'indexer',
+    priority,
+    timeoutMs: 8000,
+    isAvailable: () => !!baseUrl,
+    discover: async (walletAddress, signal) => {
+      const response = await fetch(`${baseUrl}/${walletAddress}`, { signal })
+
+      if (!response.ok) {
+        throw new Error(`Indexer error: ${response.status}`)
+      }
+
+      const items: any[] = await response.json()
+
+      return items
+        .filter(item => item.address && item.balance && BigInt(item.balance) > BigInt(0))
+        .map(item => ({
+          address: item.address.toLowerCase(),
+          balance: BigInt(item.balance),
+          symbol: item.symbol,
+          name: item.name,
+          decimals: item.decimals,
+          source: 'indexer'
+        }))
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import type { MoralisClient } from '@/lib/moralis'
+import type { TokenDiscoveryProvider } from '../types'
+
+/**
+ * Moralis wallet balances, every page. Takes the server's client so the API
+ * key never has to reach the browser.
+ */
+export function createMoralisProvider(client: MoralisClient, priority = 10): TokenDiscoveryProvider {
+  return {
+    id: 'moralis',
+    priority,
+    timeoutMs: 15000,
+    discover: async (walletAddress, signal) => {
+      const tokens = await client.getWalletTokens(walletAddress, signal)
+
+      return tokens
+        .filter(token => !token.native_token && token.balance && BigInt(token.balance) > BigInt(0))
+        .map(token => {
+          const decimals = token.decimals === null ? NaN : Number(token.decimals)
+          return {
+            address: token.token_address.toLowerCase(),
+            balance: BigInt(token.balance),
+            symbol: token.symbol ?? undefined,
+            name: token.name ?? undefined,
+            decimals: Number.isInteger(decimals) ? decimals : undefined,
+            logo: token.logo ?? token.thumbnail,
+            possibleSpam: token.possible_spam,
+            source: 'moralis'
+          }
+        })
+    }
+  }
+}
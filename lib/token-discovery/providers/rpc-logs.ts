@@ -0,0 +1,24 @@
+import type { TokenDiscoveryProvider } from '../types'
+
+type WalletScan = (signal: AbortSignal) => Promise<{ address: string, balance: bigint }[]>
+
+/**
+ * Wraps the hook's Transfer-log scan so it can take part in the registry.
+ * Slow, so it only runs when the API providers come back empty.
+ */
+export function createRpcLogProvider(scan: WalletScan, priority = 100): TokenDiscoveryProvider {
+  return {
+    id: 'rpc',
+    priority,
+    timeoutMs: 120000,
+    fallbackOnly: true,
+    discover: async (_walletAddress, signal) => {
+      const tokens = await scan(signal)
+      return tokens.map(token => ({
+        address: token.address.toLowerCase(),
+        balance: token.balance,
+        source: 'rpc'
+      }))
+    }
+  }
+}
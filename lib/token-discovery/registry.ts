@@ -0,0 +1,218 @@
+import type {
+  DiscoveredToken,
+  DiscoveryResult,
+  MergedToken,
+  ProviderHealth,
+  ProviderOutcome,
+  TokenDiscoveryProvider
+} from './types'
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+// After this many failures in a row a provider sits out until the cooldown passes
+const MAX_CONSECUTIVE_FAILURES = 3
+const FAILURE_COOLDOWN_MS = 60 * 1000
+
+const HEALTH_PRIORITY_WEIGHT = 20
+
+// Shared across registries so health survives re-renders and repeated scans
+const defaultHealthStore = new Map<string, ProviderHealth>()
+
+const emptyHealth = (): ProviderHealth => ({
+  successes: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  averageLatencyMs: 0
+})
+
+/**
+ * 0-1 score: success rate, discounted for slow providers. Unused providers start at 1.
+ */
+export function getHealthScore(health: ProviderHealth | undefined): number {
+  if (!health || health.successes + health.failures === 0) return 1
+
+  const successRate = health.successes / (health.successes + health.failures)
+  const latencyPenalty = Math.min(0.5, health.averageLatencyMs / 20000)
+  return Math.max(0, successRate - latencyPenalty)
+}
+
+function isCoolingDown(health: ProviderHealth | undefined, now: number): boolean {
+  return !!health &&
+    health.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES &&
+    health.lastFailureAt !== undefined &&
+    now - health.lastFailureAt < FAILURE_COOLDOWN_MS
+}
+
+async function runWithTimeout(
+  provider: TokenDiscoveryProvider,
+  walletAddress: string,
+  signal: AbortSignal
+): Promise<DiscoveredToken[]> {
+  const controller = new AbortController()
+  const timeoutMs = provider.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const abort = () => controller.abort()
+  signal.addEventListener('abort', abort)
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      controller.abort()
+      reject(new Error(`${provider.id} timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+  })
+
+  try {
+    return await Promise.race([provider.discover(walletAddress, controller.signal), timeout])
+  } finally {
+    clearTimeout(timeoutId)
+    signal.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Merge provider results by address. The best ranked provider's fields win and
+ * gaps (missing symbol, decimals...) are filled from the others.
+ */
+export function mergeDiscoveredTokens(results: DiscoveredToken[][]): MergedToken[] {
+  const merged = new Map<string, MergedToken>()
+
+  results.forEach(tokens => {
+    tokens.forEach(token => {
+      const address = token.address.toLowerCase()
+      const existing = merged.get(address)
+
+      if (!existing) {
+        merged.set(address, { ...token, address, sources: [token.source] })
+        return
+      }
+
+      if (!existing.sources.includes(token.source)) {
+        existing.sources.push(token.source)
+      }
+      existing.symbol ??= token.symbol
+      existing.name ??= token.name
+      existing.decimals ??= token.decimals
+      existing.logo ??= token.logo
+      existing.possibleSpam = existing.possibleSpam || token.possibleSpam
+    })
+  })
+
+  return Array.from(merged.values())
+}
+
+export interface DiscoveryRegistryOptions {
+  healthStore?: Map<string, ProviderHealth>
+  now?: () => number
+}
+
+/**
+ * Runs every available provider in parallel, each under its own timeout, and
+ * merges what comes back. Ranking is priority adjusted by health score.
+ * Fallback-only providers run when the rest found nothing.
+ */
+export function createDiscoveryRegistry(
+  providers: TokenDiscoveryProvider[],
+  options: DiscoveryRegistryOptions = {}
+) {
+  const healthStore = options.healthStore ?? defaultHealthStore
+  const now = options.now ?? Date.now
+
+  const recordSuccess = (id: string, latencyMs: number) => {
+    const health = healthStore.get(id) ?? emptyHealth()
+    const samples = health.successes + health.failures
+    healthStore.set(id, {
+      ...health,
+      successes: health.successes + 1,
+      consecutiveFailures: 0,
+      averageLatencyMs: (health.averageLatencyMs * samples + latencyMs) / (samples + 1)
+    })
+  }
+
+  const recordFailure = (id: string, latencyMs: number, error: string) => {
+    const health = healthStore.get(id) ?? emptyHealth()
+    const samples = health.successes + health.failures
+    healthStore.set(id, {
+      ...health,
+      failures: health.failures + 1,
+      consecutiveFailures: health.consecutiveFailures + 1,
+      averageLatencyMs: (health.averageLatencyMs * samples + latencyMs) / (samples + 1),
+      lastError: error,
+      lastFailureAt: now()
+    })
+  }
+
+  // A fully unhealthy provider drops up to two configured priority steps (10 each)
+  const effectivePriority = (provider: TokenDiscoveryProvider) =>
+    provider.priority + (1 - getHealthScore(healthStore.get(provider.id))) * HEALTH_PRIORITY_WEIGHT
+
+  const rankProviders = () =>
+    [...providers].sort((a, b) => effectivePriority(a) - effectivePriority(b))
+
+  const runProviders = async (
+    ranked: TokenDiscoveryProvider[],
+    walletAddress: string,
+    signal: AbortSignal,
+    outcomes: ProviderOutcome[]
+  ): Promise<DiscoveredToken[][]> => {
+    const active = ranked.filter(provider => {
+      const skip = (provider.isAvailable && !provider.isAvailable()) || isCoolingDown(healthStore.get(provider.id), now())
+      if (skip) {
+        outcomes.push({ id: provider.id, status: 'skipped', tokenCount: 0, latencyMs: 0 })
+      }
+      return !skip
+    })
+
+    const settled = await Promise.allSettled(active.map(async provider => {
+      const startedAt = now()
+      try {
+        const tokens = await runWithTimeout(provider, walletAddress, signal)
+        const latencyMs = now() - startedAt
+        recordSuccess(provider.id, latencyMs)
+        outcomes.push({ id: provider.id, status: 'fulfilled', tokenCount: tokens.length, latencyMs })
+        return tokens.map(token => ({ ...token, source: token.source || provider.id }))
+      } catch (error) {
+        const latencyMs = now() - startedAt
+        const message = error instanceof Error ? error.message : String(error)
+        // Our own cancellation says nothing about the provider's health
+        if (!signal.aborted) {
+          recordFailure(provider.id, latencyMs, message)
+        }
+        outcomes.push({ id: provider.id, status: 'rejected', tokenCount: 0, latencyMs, error: message })
+        throw error
+      }
+    }))
+
+    if (signal.aborted) {
+      throw new DOMException('Token discovery aborted', 'AbortError')
+    }
+
+    // settled follows the ranked order, so merging in order keeps the best provider's fields
+    return settled
+      .filter((result): result is PromiseFulfilledResult<DiscoveredToken[]> => result.status === 'fulfilled')
+      .map(result => result.value)
+  }
+
+  const discover = async (walletAddress: string, signal: AbortSignal): Promise<DiscoveryResult> => {
+    const ranked = rankProviders()
+    const outcomes: ProviderOutcome[] = []
+
+    let results = await runProviders(ranked.filter(p => !p.fallbackOnly), walletAddress, signal, outcomes)
+
+    if (results.every(tokens => tokens.length === 0)) {
+      results = await runProviders(ranked.filter(p => p.fallbackOnly), walletAddress, signal, outcomes)
+    }
+
+    return { tokens: mergeDiscoveredTokens(results), outcomes }
+  }
+
+  const getHealth = () =>
+    providers.map(provider => ({
+      id: provider.id,
+      score: getHealthScore(healthStore.get(provider.id)),
+      ...(healthStore.get(provider.id) ?? emptyHealth())
+    }))
+
+  return { discover, getHealth }
+}
+
+export type DiscoveryRegistry = ReturnType<typeof createDiscoveryRegistry>
@@ -0,0 +1,52 @@
+// Shared types for pluggable wallet token discovery
+
+export interface DiscoveredToken {
+  address: string
+  balance: bigint
+  symbol?: string
+  name?: string
+  decimals?: number
+  logo?: string | null
+  possibleSpam?: boolean
+  // Provider id that supplied this entry
+  source: string
+}
+
+export interface TokenDiscoveryProvider {
+  id: string
+  // Lower runs first and wins conflicts when results are merged
+  priority: number
+  timeoutMs?: number
+  // Only consulted when every other provider failed or found nothing
+  fallbackOnly?: boolean
+  // Providers without credentials opt out here instead of failing every call
+  isAvailable?: () => boolean
+  discover: (walletAddress: string, signal: AbortSignal) => Promise<DiscoveredToken[]>
+}
+
+export interface ProviderHealth {
+  successes: number
+  failures: number
+  consecutiveFailures: number
+  averageLatencyMs: number
+  lastError?: string
+  lastFailureAt?: number
+}
+
+export interface ProviderOutcome {
+  id: string
+  status: 'fulfilled' | 'rejected' | 'skipped'
+  tokenCount: number
+  latencyMs: number
+  error?: string
+}
+
+export interface MergedToken extends DiscoveredToken {
+  // Every provider that reported this token, best ranked first
+  sources: string[]
+}
+
+export interface DiscoveryResult {
+  tokens: MergedToken[]
+  outcomes: ProviderOutcome[]
+}
@@ -0,0 +1,29 @@
+import { BASE_DEPLOYMENT } from '@/lib/deployments'
+import type { TokenList } from './types'
+
+const BASE_CHAIN_ID = 8453
+
+/**
+ * Bundled so the registry works offline and before remote lists load.
+ * Kept to well-known Base tokens; remote lists supply the long tail and logos.
+ */
+export const DEFAULT_TOKEN_LIST: TokenList = {
+  name: 'SwapDust Default',
+  timestamp: '2025-01-01T00:00:00.000Z',
+  version: { major: 1, minor: 0, patch: 0 },
+  tags: {
+    stablecoin: { name: 'Stablecoin' },
+    native: { name: 'Wrapped native' }
+  },
+  tokens: [
+    { chainId: BASE_CHAIN_ID, address: BASE_DEPLOYMENT.contracts.WETH, name: 'Wrapped Ether', symbol: 'WETH', decimals: 18, tags: ['native'] },
+    { chainId: BASE_CHAIN_ID, address: BASE_DEPLOYMENT.contracts.HIGHER_TOKEN, name: 'higher', symbol: 'HIGHER', decimals: 18 },
+    { chainId: BASE_CHAIN_ID, address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', name: 'USD Coin', symbol: 'USDC', decimals: 6, tags: ['stablecoin'] },
+    { chainId: BASE_CHAIN_ID, address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', name: 'USD Base Coin', symbol: 'USDbC', decimals: 6, tags: ['stablecoin'] },
+    { chainId: BASE_CHAIN_ID, address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', name: 'Dai Stablecoin', symbol: 'DAI', decimals: 18, tags: ['stablecoin'] },
+    { chainId: BASE_CHAIN_ID, address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', name: 'Coinbase Wrapped Staked ETH', symbol: 'cbETH', decimals: 18 },
+    { chainId: BASE_CHAIN_ID, address: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf', name: 'Coinbase Wrapped BTC', symbol: 'cbBTC', decimals: 8 },
+    { chainId: BASE_CHAIN_ID, address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631', name: 'Aerodrome', symbol: 'AERO', decimals: 18 },
+    { chainId: BASE_CHAIN_ID, address: '0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed', name: 'Degen', symbol: 'DEGEN', decimals: 18 }
+  ]
+}
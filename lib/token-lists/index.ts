@@ -0,0 +1,66 @@
+import type { MetadataFallback } from '@/lib/token-metadata'
+import { DEFAULT_TOKEN_LIST } from './default-list'
+import { fetchTokenLists } from './loader'
+import { createTokenRegistry, type TokenRegistry } from './registry'
+
+export * from './types'
+export { DEFAULT_TOKEN_LIST } from './default-list'
+export { fetchTokenList, fetchTokenLists } from './loader'
+export { createTokenRegistry, resolveLogoURI, type TokenRegistry } from './registry'
+
+// Superchain token list: Base tokens with logos, maintained by Optimism
+const DEFAULT_TOKEN_LIST_URLS = ['https://static.optimism.io/optimism.tokenlist.json']
+
+// Remote lists change rarely
+const REGISTRY_TTL_MS = 60 * 60 * 1000
+
+/**
+ * List URLs from NEXT_PUBLIC_TOKEN_LIST_URLS (comma separated). Set it to an
+ * empty string to use only the bundled list.
+ */
+export function getTokenListUrls(): string[] {
+  const configured = process.env.NEXT_PUBLIC_TOKEN_LIST_URLS
+  if (configured === undefined) return DEFAULT_TOKEN_LIST_URLS
+  return configured.split(',').map(url => url.trim()).filter(Boolean)
+}
+
+// Bundled list only until the remote lists arrive
+let registry: TokenRegistry = createTokenRegistry([DEFAULT_TOKEN_LIST])
+let loadedAt = 0
+let loading: Promise<TokenRegistry> | null = null
+
+/**
+ * The registry as loaded so far, never waiting on the network
+ */
+export function getTokenRegistry(): TokenRegistry {
+  return registry
+}
+
+/**
+ * Bundled list plus the configured URLs, refreshed hourly. Concurrent callers
+ * share one load; a failed load keeps the previous registry.
+ */
+export function loadTokenRegistry(): Promise<TokenRegistry> {
+  if (loadedAt && Date.now() - loadedAt < REGISTRY_TTL_MS) return Promise.resolve(registry)
+
+  loading ??= fetchTokenLists(getTokenListUrls())
+    .then(lists => {
+      registry = createTokenRegistry([DEFAULT_TOKEN_LIST, ...lists])
+      loadedAt = Date.now()
+      console.log(`📚 Token registry: ${registry.size} tokens from ${registry.lists.length} lists`)
+      return registry
+    })
+    .catch(error => {
+      console.warn('⚠️ Token lists failed to load, using the bundled list:', error)
+      return registry
+    })
+    .finally(() => { loading = null })
+
+  return loading
+}
+
+// Metadata for tokens whose contracts won't describe themselves
+export const tokenListMetadataFallback: MetadataFallback = (chainId, address) => {
+  const token = registry.get(chainId, address)
+  return token && { symbol: token.symbol, name: token.name, decimals: token.decimals }
+}
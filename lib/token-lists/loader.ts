@@ -0,0 +1,49 @@
+import { tokenListSchema, tokenListTokenSchema, type TokenList } from './types'
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * Fetch and validate one tokenlists.org list. Malformed entries are dropped
+ * individually so one bad token doesn't discard the list.
+ */
+export async function fetchTokenList(url: string, signal?: AbortSignal, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<TokenList> {
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  signal?.addEventListener('abort', abort)
+  const timeoutId = setTimeout(abort, timeoutMs)
+
+  try {
+    const response = await fetch(url, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`Token list ${url} failed: ${response.status}`)
+    }
+
+    const parsed = tokenListSchema.safeParse(await response.json())
+    if (!parsed.success) {
+      throw new Error(`Token list ${url} is not in tokenlists.org format: ${parsed.error.issues[0]?.message}`)
+    }
+
+    const tokens = parsed.data.tokens.flatMap(token => {
+      const entry = tokenListTokenSchema.safeParse(token)
+      return entry.success ? [entry.data] : []
+    })
+
+    return { ...parsed.data, tokens }
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Lists that loaded, in the order given; failures are logged and skipped
+ */
+export async function fetchTokenLists(urls: string[], signal?: AbortSignal): Promise<TokenList[]> {
+  const settled = await Promise.allSettled(urls.map(url => fetchTokenList(url, signal)))
+
+  return settled.flatMap((result, i) => {
+    if (result.status === 'fulfilled') return [result.value]
+    console.warn(`⚠️ Skipping token list ${urls[i]}:`, result.reason)
+    return []
+  })
+}
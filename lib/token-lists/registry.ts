@@ -0,0 +1,66 @@
+import type { RegistryToken, TokenList } from './types'
+
+const keyFor = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`
+
+// Lists often use ipfs:// logos, which browsers can't load directly
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/'
+
+export function resolveLogoURI(uri: string | undefined): string | undefined {
+  if (!uri) return undefined
+  if (uri.startsWith('ipfs://')) return IPFS_GATEWAY + uri.slice('ipfs://'.length)
+  return uri.startsWith('https://') || uri.startsWith('data:image/') ? uri : undefined
+}
+
+/**
+ * Merge token lists into one lookup. Earlier lists win conflicting fields;
+ * tags and list names accumulate, and a logo is taken from whichever list has one.
+ */
+export function createTokenRegistry(lists: TokenList[]) {
+  const tokens = new Map<string, RegistryToken>()
+  const bySymbol = new Map<string, RegistryToken[]>()
+
+  lists.forEach(list => {
+    list.tokens.forEach(token => {
+      const key = keyFor(token.chainId, token.address)
+      const tags = (token.tags ?? []).map(tag => list.tags?.[tag]?.name ?? tag)
+      const existing = tokens.get(key)
+
+      if (existing) {
+        existing.logoURI ??= resolveLogoURI(token.logoURI)
+        existing.tags = Array.from(new Set(existing.tags.concat(tags)))
+        if (!existing.lists.includes(list.name)) existing.lists.push(list.name)
+        return
+      }
+
+      const entry: RegistryToken = {
+        chainId: token.chainId,
+        address: token.address.toLowerCase(),
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        logoURI: resolveLogoURI(token.logoURI),
+        tags,
+        lists: [list.name],
+        verified: true
+      }
+      tokens.set(key, entry)
+
+      const symbolKey = keyFor(token.chainId, token.symbol)
+      bySymbol.set(symbolKey, (bySymbol.get(symbolKey) ?? []).concat(entry))
+    })
+  })
+
+  const get = (chainId: number, address: string): RegistryToken | undefined => tokens.get(keyFor(chainId, address))
+
+  // Listed tokens sharing a symbol, case-insensitive; used to spot impersonators
+  const findBySymbol = (chainId: number, symbol: string): RegistryToken[] => bySymbol.get(keyFor(chainId, symbol)) ?? []
+
+  return {
+    get,
+    findBySymbol,
+    size: tokens.size,
+    lists: lists.map(list => list.name)
+  }
+}
+
+export type TokenRegistry = ReturnType<typeof createTokenRegistry>
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+// https://tokenlists.org schema, trimmed to the fields we read
+export const tokenListTokenSchema = z.object({
+  chainId: z.number().int(),
+  address: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  name: z.string(),
+  symbol: z.string(),
+  decimals: z.number().int().min(0).max(255),
+  logoURI: z.string().optional(),
+  tags: z.array(z.string()).optional()
+})
+
+export const tokenListSchema = z.object({
+  name: z.string(),
+  timestamp: z.string().optional(),
+  version: z.object({ major: z.number(), minor: z.number(), patch: z.number() }).optional(),
+  logoURI: z.string().optional(),
+  tags: z.record(z.object({ name: z.string(), description: z.string().optional() })).optional(),
+  tokens: z.array(z.unknown())
+})
+
+export type TokenListToken = z.infer<typeof tokenListTokenSchema>
+
+export type TokenList = Omit<z.infer<typeof tokenListSchema>, 'tokens'> & {
+  tokens: TokenListToken[]
+}
+
+export interface RegistryToken {
+  chainId: number
+  // Lowercased
+  address: string
+  name: string
+  symbol: string
+  decimals: number
+  logoURI?: string
+  // Tag names, resolved through each list's tag definitions
+  tags: string[]
+  // Names of every list that includes the token
+  lists: string[]
+  // Listed on at least one trusted list
+  verified: boolean
+}
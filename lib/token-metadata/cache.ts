@@ -0,0 +1,81 @@
+import type { CacheAdapter } from '@/lib/server-cache'
+import type { CachedMetadata, MetadataCache, TokenMetadata } from './types'
+
+const MAX_LOCAL_ENTRIES = 2000
+
+export function createMemoryMetadataCache(): MetadataCache {
+  const entries = new Map<string, CachedMetadata>()
+
+  return {
+    getMany: async (keys) => keys.map(key => {
+      const entry = entries.get(key)
+      return entry && entry.expiresAt > Date.now() ? entry : null
+    }),
+    setMany: async (items) => {
+      items.forEach(({ key, value, ttlMs }) => entries.set(key, { value, expiresAt: Date.now() + ttlMs }))
+    }
+  }
+}
+
+/**
+ * Browser cache in localStorage, one JSON object for every token. Falls back
+ * to memory where storage is unavailable.
+ */
+export function createLocalStorageMetadataCache(storageKey = 'swapdust:token-metadata:v1'): MetadataCache {
+  if (typeof window === 'undefined' || !window.localStorage) {
+    return createMemoryMetadataCache()
+  }
+
+  const load = (): Record<string, CachedMetadata> => {
+    try {
+      const raw = window.localStorage.getItem(storageKey)
+      return raw ? JSON.parse(raw) : {}
+    } catch {
+      return {}
+    }
+  }
+
+  return {
+    getMany: async (keys) => {
+      const stored = load()
+      const now = Date.now()
+      return keys.map(key => {
+        const entry = stored[key]
+        return entry && entry.expiresAt > now ? entry : null
+      })
+    },
+    setMany: async (items) => {
+      if (items.length === 0) return
+      const now = Date.now()
+      const stored = load()
+      items.forEach(({ key, value, ttlMs }) => { stored[key] = { value, expiresAt: now + ttlMs } })
+
+      // Drop expired entries, then the oldest-expiring ones past the cap
+      const kept = Object.entries(stored)
+        .filter(([, entry]) => entry.expiresAt > now)
+        .sort(([, a], [, b]) => b.expiresAt - a.expiresAt)
+        .slice(0, MAX_LOCAL_ENTRIES)
+
+      try {
+        window.localStorage.setItem(storageKey, JSON.stringify(Object.fromEntries(kept)))
+      } catch (error) {
+        console.warn('⚠️ Failed to save token metadata:', error)
+      }
+    }
+  }
+}
+
+/**
+ * Server cache backend (memory, filesystem or redis) for the API routes
+ */
+export function createAdapterMetadataCache(adapter: CacheAdapter, prefix = 'token-metadata:v1:'): MetadataCache {
+  return {
+    getMany: async (keys) => {
+      const entries = await adapter.getMany<TokenMetadata>(keys.map(key => prefix + key))
+      return entries.map(entry => entry ? { value: entry.value, expiresAt: entry.expiresAt } : null)
+    },
+    setMany: async (items) => {
+      await Promise.all(items.map(({ key, value, ttlMs }) => adapter.set(prefix + key, value, { ttlMs })))
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { decodeAbiParameters, hexToBigInt, hexToString, size, slice, type Hex } from 'viem'
+
+const MAX_TEXT_LENGTH = 64
+const MAX_DECIMALS = BigInt(255)
+
+// Drops NUL padding and control characters some tokens put in their names
+export function sanitizeText(value: string): string | undefined {
+  // eslint-disable-next-line no-control-regex
+  const cleaned = value.replace(/[\u0000-\u001f\u007f]/g, '').trim()
+  return cleaned ? cleaned.slice(0, MAX_TEXT_LENGTH) : undefined
+}
+
+/**
+ * symbol()/name() return data as either an ABI string or a bytes32
+ * (MKR-style). Anything else, including empty data, is undefined.
+ */
+export function decodeStringResult(data: Hex): string | undefined {
+  if (!data || data === '0x') return undefined
+  const bytes = size(data)
+
+  if (bytes >= 64) {
+    try {
+      return sanitizeText(decodeAbiParameters([{ type: 'string' }], data)[0])
+    } catch {
+      // Not a valid string encoding; fall through and read it as bytes32
+    }
+  }
+
+  if (bytes >= 32) {
+    return sanitizeText(hexToString(slice(data, 0, 32)))
+  }
+
+  return undefined
+}
+
+// decimals() is uint8 by spec, but some tokens return a wider uint
+export function decodeDecimalsResult(data: Hex): number | undefined {
+  if (!data || data === '0x' || size(data) < 32) return undefined
+  const value = hexToBigInt(slice(data, 0, 32))
+  return value <= MAX_DECIMALS ? Number(value) : undefined
+}
@@ -0,0 +1,4 @@
+export * from './types'
+export { decodeDecimalsResult, decodeStringResult, sanitizeText } from './decode'
+export { createAdapterMetadataCache, createLocalStorageMetadataCache, createMemoryMetadataCache } from './cache'
+export { createMetadataResolver, type MetadataResolver, type MetadataResolverOptions } from './resolver'
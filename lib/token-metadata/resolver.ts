@@ -0,0 +1,122 @@
+import { encodeFunctionData, erc20Abi, type Address, type PublicClient } from 'viem'
+import { multicallRaw } from '@/lib/multicall'
+import { createMemoryMetadataCache } from './cache'
+import { decodeDecimalsResult, decodeStringResult } from './decode'
+import type { MetadataCache, MetadataFallback, MetadataSource, TokenMetadata } from './types'
+
+// Calls go to the token's own address, so proxies answer through their current
+// implementation; a week's TTL picks up upgrades that rename a token
+const RESOLVED_TTL_MS = 7 * 24 * 60 * 60 * 1000
+// Tokens that answered nothing get another chance sooner
+const UNRESOLVED_TTL_MS = 60 * 60 * 1000
+
+const DEFAULT_SYMBOL = 'UNKNOWN'
+const DEFAULT_NAME = 'Unknown Token'
+const DEFAULT_DECIMALS = 18
+
+const CALLS = [
+  encodeFunctionData({ abi: erc20Abi, functionName: 'symbol' }),
+  encodeFunctionData({ abi: erc20Abi, functionName: 'name' }),
+  encodeFunctionData({ abi: erc20Abi, functionName: 'decimals' })
+]
+
+export interface MetadataResolverOptions {
+  client: PublicClient
+  chainId: number
+  cache?: MetadataCache
+  fallback?: MetadataFallback
+}
+
+/**
+ * ERC-20 metadata for any token: string or bytes32 symbols/names, missing or
+ * oversized decimals, fallback metadata for whatever the chain won't say, and
+ * a cache keyed by chain and address so each token is read once.
+ */
+export function createMetadataResolver(options: MetadataResolverOptions) {
+  const { client, chainId, fallback } = options
+  const cache = options.cache ?? createMemoryMetadataCache()
+
+  const cacheKey = (address: string) => `${chainId}:${address}`
+
+  const readOnChain = async (addresses: string[], signal?: AbortSignal) => {
+    const results = await multicallRaw(
+      client,
+      addresses.flatMap(address => CALLS.map(callData => ({ target: address as Address, callData }))),
+      { signal }
+    )
+
+    return addresses.map((address, i) => {
+      const [symbol, name, decimals] = results.slice(i * CALLS.length, (i + 1) * CALLS.length)
+      return {
+        address,
+        symbol: symbol.success ? decodeStringResult(symbol.returnData) : undefined,
+        name: name.success ? decodeStringResult(name.returnData) : undefined,
+        decimals: decimals.success ? decodeDecimalsResult(decimals.returnData) : undefined,
+        // Only an RPC failure, not a revert, makes the answer untrustworthy
+        rpcFailed: [symbol, name, decimals].some(result => !!result.error)
+      }
+    })
+  }
+
+  const resolve = async (addresses: string[], signal?: AbortSignal): Promise<Map<string, TokenMetadata>> => {
+    const unique = Array.from(new Set(addresses.map(address => address.toLowerCase())))
+    const resolved = new Map<string, TokenMetadata>()
+    if (unique.length === 0) return resolved
+
+    const cached = await cache.getMany(unique.map(cacheKey)).catch(error => {
+      console.warn('⚠️ Token metadata cache read failed:', error)
+      return unique.map(() => null)
+    })
+
+    const misses = unique.filter((address, i) => {
+      const entry = cached[i]
+      if (entry) resolved.set(address, entry.value)
+      return !entry
+    })
+
+    if (misses.length === 0) return resolved
+
+    const onChain = await readOnChain(misses, signal)
+    const toCache: { key: string; value: TokenMetadata; ttlMs: number }[] = []
+
+    onChain.forEach(read => {
+      const listed = read.symbol && read.name && read.decimals !== undefined
+        ? undefined
+        : fallback?.(chainId, read.address)
+
+      const symbol = read.symbol ?? listed?.symbol
+      const decimals = read.decimals ?? listed?.decimals
+      const source: MetadataSource = read.symbol && read.decimals !== undefined ? 'onchain'
+        : symbol || decimals !== undefined ? 'fallback'
+        : 'unresolved'
+
+      const metadata: TokenMetadata = {
+        address: read.address,
+        symbol: symbol ?? DEFAULT_SYMBOL,
+        name: read.name ?? listed?.name ?? symbol ?? DEFAULT_NAME,
+        decimals: decimals ?? DEFAULT_DECIMALS,
+        source
+      }
+      resolved.set(read.address, metadata)
+
+      if (!read.rpcFailed) {
+        toCache.push({
+          key: cacheKey(read.address),
+          value: metadata,
+          ttlMs: source === 'unresolved' ? UNRESOLVED_TTL_MS : RESOLVED_TTL_MS
+        })
+      }
+    })
+
+    await cache.setMany(toCache).catch(error => console.warn('⚠️ Token metadata cache write failed:', error))
+
+    const incomplete = misses.filter(address => resolved.get(address)?.source !== 'onchain').length
+    console.log(`📋 Read metadata for ${misses.length} tokens on-chain (${unique.length - misses.length} cached, ${incomplete} incomplete)`)
+
+    return resolved
+  }
+
+  return { resolve }
+}
+
+export type MetadataResolver = ReturnType<typeof createMetadataResolver>
@@ -0,0 +1,33 @@
+// ERC-20 metadata as resolved from chain, fallback lists and cache
+
+// onchain: symbol and decimals both answered by the token
+// fallback: at least one came from the fallback lookup (token lists)
+// unresolved: defaults were used
+export type MetadataSource = 'onchain' | 'fallback' | 'unresolved'
+
+export interface TokenMetadata {
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  source: MetadataSource
+}
+
+export interface PartialTokenMetadata {
+  symbol?: string
+  name?: string
+  decimals?: number
+}
+
+// e.g. a token-list lookup; consulted only for fields the chain didn't answer
+export type MetadataFallback = (chainId: number, address: string) => PartialTokenMetadata | undefined
+
+export interface CachedMetadata {
+  value: TokenMetadata
+  expiresAt: number
+}
+
+export interface MetadataCache {
+  getMany: (keys: string[]) => Promise<(CachedMetadata | null)[]>
+  setMany: (entries: { key: string; value: TokenMetadata; ttlMs: number }[]) => Promise<void>
+}
@@ -0,0 +1,41 @@
+import type { PublicClient } from 'viem'
+import type { TokenRegistry } from '@/lib/token-lists'
+import { classifyToken } from './classifier'
+import { simulateTransfers } from './simulation'
+import type { RiskAssessment, RiskInput } from './types'
+
+export interface AssessableToken extends Omit<RiskInput, 'symbolMatches' | 'transfer'> {
+  balance: bigint
+  isEligible: boolean
+}
+
+/**
+ * Classify a wallet's tokens. Only unverified dust the user could select is
+ * transfer-simulated; the rest is scored on metadata alone.
+ */
+export async function assessTokenRisk(
+  tokens: AssessableToken[],
+  context: { client: PublicClient; wallet: string; chainId: number; registry: TokenRegistry; signal?: AbortSignal }
+): Promise<Map<string, RiskAssessment>> {
+  const { client, wallet, chainId, registry, signal } = context
+
+  const transfers = await simulateTransfers(
+    client,
+    wallet,
+    tokens.filter(token => token.isEligible && !token.verified && token.balance > BigInt(0)),
+    { signal }
+  ).catch(error => {
+    if (signal?.aborted) throw error
+    console.warn('⚠️ Transfer simulation failed:', error)
+    return new Map()
+  })
+
+  return new Map(tokens.map(token => {
+    const address = token.address.toLowerCase()
+    return [address, classifyToken({
+      ...token,
+      symbolMatches: registry.findBySymbol(chainId, token.symbol),
+      transfer: transfers.get(address)
+    })]
+  }))
+}
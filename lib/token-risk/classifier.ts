@@ -0,0 +1,54 @@
+import type { RiskAssessment, RiskInput, RiskLevel, RiskReason } from './types'
+
+// One strong signal is enough for high; weak ones only add up to it together
+export const RISK_WEIGHTS: Record<RiskReason, number> = {
+  'transfer-blocked': 80,
+  'url-like-name': 70,
+  'impersonator': 60,
+  'flagged-spam': 50,
+  'no-liquidity': 25,
+  'unverified': 10
+}
+
+const MEDIUM_RISK_SCORE = 30
+const HIGH_RISK_SCORE = 60
+
+// Domains, links and the bait words scam airdrops put in their names
+const URL_LIKE_PATTERNS = [
+  /https?:\/\//i,
+  /www\./i,
+  /t\.me\//i,
+  /\b[a-z0-9-]{2,}\.(com|io|xyz|org|net|app|finance|fi|site|online|top|club|vip|pro|cc|gg|me|link|claims?|live|lol|fun)\b/i,
+  /\b(claim|visit|reward|voucher|airdrop|redeem|bonus)\b/i
+]
+
+export function isUrlLike(text: string): boolean {
+  return URL_LIKE_PATTERNS.some(pattern => pattern.test(text))
+}
+
+const levelFor = (score: number): RiskLevel =>
+  score >= HIGH_RISK_SCORE ? 'high' : score >= MEDIUM_RISK_SCORE ? 'medium' : 'low'
+
+/**
+ * Score a token on cheap heuristics. Listed tokens are trusted unless they
+ * can't actually be moved; everything else accumulates weighted reasons.
+ */
+export function classifyToken(token: RiskInput): RiskAssessment {
+  const reasons: RiskReason[] = []
+
+  if (token.transfer === 'reverted') reasons.push('transfer-blocked')
+
+  if (!token.verified) {
+    if (isUrlLike(token.symbol) || isUrlLike(token.name)) reasons.push('url-like-name')
+
+    const address = token.address.toLowerCase()
+    if (token.symbolMatches?.some(match => match.address.toLowerCase() !== address)) reasons.push('impersonator')
+
+    if (token.possibleSpam) reasons.push('flagged-spam')
+    if (!token.priceUSD && !token.liquidityUSD && !token.pairAddress) reasons.push('no-liquidity')
+    reasons.push('unverified')
+  }
+
+  const score = Math.min(100, reasons.reduce((sum, reason) => sum + RISK_WEIGHTS[reason], 0))
+  return { level: levelFor(score), score, reasons }
+}
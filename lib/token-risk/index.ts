@@ -0,0 +1,4 @@
+export * from './types'
+export { classifyToken, isUrlLike, RISK_WEIGHTS } from './classifier'
+export { simulateTransfers, type TransferCandidate } from './simulation'
+export { assessTokenRisk, type AssessableToken } from './assess'
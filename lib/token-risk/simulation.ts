@@ -0,0 +1,61 @@
+import { encodeFunctionData, erc20Abi, type Address, type PublicClient } from 'viem'
+import type { TransferSimulation } from './types'
+
+// Recipient when the token has no known pool
+const DEAD_ADDRESS = '0x000000000000000000000000000000000000dEaD' as Address
+
+// Each simulation is its own eth_call (msg.sender must be the wallet), so cap them
+const DEFAULT_MAX_SIMULATIONS = 50
+const CONCURRENCY = 4
+
+export interface TransferCandidate {
+  address: string
+  balance: bigint
+  // The pool a sale would send tokens to; honeypots often block only that
+  pairAddress?: string
+}
+
+/**
+ * eth_call transfer(pool, balance) from the wallet for each token. A revert
+ * means the wallet can't sell it; RPC errors leave the token 'unknown'.
+ */
+export async function simulateTransfers(
+  client: PublicClient,
+  wallet: string,
+  candidates: TransferCandidate[],
+  options: { signal?: AbortSignal; maxSimulations?: number } = {}
+): Promise<Map<string, TransferSimulation>> {
+  const results = new Map<string, TransferSimulation>()
+  const queue = candidates.slice(0, options.maxSimulations ?? DEFAULT_MAX_SIMULATIONS)
+
+  const simulate = async (candidate: TransferCandidate): Promise<TransferSimulation> => {
+    try {
+      const { data } = await client.call({
+        account: wallet as Address,
+        to: candidate.address as Address,
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: 'transfer',
+          args: [(candidate.pairAddress ?? DEAD_ADDRESS) as Address, candidate.balance]
+        })
+      })
+      // Tokens that return false instead of reverting
+      return data && BigInt(data) === BigInt(0) ? 'reverted' : 'ok'
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return /revert/i.test(message) ? 'reverted' : 'unknown'
+    }
+  }
+
+  const worker = async () => {
+    for (let candidate = queue.shift(); candidate; candidate = queue.shift()) {
+      if (options.signal?.aborted) {
+        throw new DOMException('Transfer simulation aborted', 'AbortError')
+      }
+      results.set(candidate.address.toLowerCase(), await simulate(candidate))
+    }
+  }
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker))
+  return results
+}
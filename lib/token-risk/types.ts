@@ -0,0 +1,47 @@
+// Spam and scam scoring for wallet tokens
+
+// Arrays rather than plain unions so API schemas can validate against them
+export const RISK_LEVELS = ['low', 'medium', 'high'] as const
+
+export type RiskLevel = typeof RISK_LEVELS[number]
+
+export const RISK_REASONS = [
+  // Name or symbol reads like a link or a call to action ("claim at xyz.com")
+  'url-like-name',
+  // Shares a symbol with a listed token at a different address
+  'impersonator',
+  // Sending the balance from the wallet reverts, so it can't be sold
+  'transfer-blocked',
+  // No price and no pool anywhere
+  'no-liquidity',
+  // Not on any trusted token list
+  'unverified',
+  // A discovery provider flagged it, usually for mass-airdrop patterns
+  'flagged-spam'
+] as const
+
+export type RiskReason = typeof RISK_REASONS[number]
+
+// Outcome of simulating a transfer of the whole balance out of the wallet
+export type TransferSimulation = 'ok' | 'reverted' | 'unknown'
+
+export interface RiskInput {
+  address: string
+  symbol: string
+  name: string
+  priceUSD?: number
+  liquidityUSD?: number
+  pairAddress?: string
+  verified?: boolean
+  possibleSpam?: boolean
+  // Listed tokens with the same symbol, from the token-list registry
+  symbolMatches?: { address: string }[]
+  transfer?: TransferSimulation
+}
+
+export interface RiskAssessment {
+  level: RiskLevel
+  // 0-100, sum of the reasons' weights
+  score: number
+  reasons: RiskReason[]
+}
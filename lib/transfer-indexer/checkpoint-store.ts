@@ -0,0 +1,76 @@
+import type { CheckpointStore, WalletCheckpoint } from './types'
+
+const DB_VERSION = 1
+const STORE_NAME = 'checkpoints'
+
+export function createMemoryCheckpointStore(): CheckpointStore {
+  const checkpoints = new Map<string, WalletCheckpoint>()
+
+  return {
+    get: async (key) => checkpoints.get(key) ?? null,
+    put: async (checkpoint) => { checkpoints.set(checkpoint.key, checkpoint) },
+    delete: async (key) => { checkpoints.delete(key) }
+  }
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * Checkpoints in IndexedDB so a scan survives reloads. Falls back to memory
+ * where IndexedDB doesn't exist (server render, private modes that block it).
+ */
+export function createIndexedDbCheckpointStore(dbName = 'swapdust-transfer-indexer'): CheckpointStore {
+  if (typeof indexedDB === 'undefined') {
+    return createMemoryCheckpointStore()
+  }
+
+  let db: Promise<IDBDatabase> | null = null
+  const fallback = createMemoryCheckpointStore()
+
+  const openDb = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    return db
+  }
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDb()
+    return promisify(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)))
+  }
+
+  // A broken database costs persistence, not the scan
+  const guard = <A extends unknown[], T>(run: (...args: A) => Promise<T>, onFail: (...args: A) => Promise<T>) =>
+    async (...args: A): Promise<T> => {
+      try {
+        return await run(...args)
+      } catch (error) {
+        console.warn('⚠️ IndexedDB checkpoint store failed, using memory:', error)
+        return onFail(...args)
+      }
+    }
+
+  return {
+    get: guard(
+      async (key: string) => (await withStore('readonly', store => store.get(key)) as WalletCheckpoint | undefined) ?? null,
+      fallback.get
+    ),
+    put: guard(
+      async (checkpoint: WalletCheckpoint) => { await withStore('readwrite', store => store.put(checkpoint)) },
+      fallback.put
+    ),
+    delete: guard(
+      async (key: string) => { await withStore('readwrite', store => store.delete(key)) },
+      fallback.delete
+    )
+  }
+}
@@ -0,0 +1,96 @@
+export interface AdaptiveChunkOptions {
+  initial?: number
+  min?: number
+  max?: number
+  // Successful chunks in a row before the size doubles
+  growAfter?: number
+}
+
+const DEFAULT_INITIAL = 500 // 1RPC's documented limit
+const DEFAULT_MIN = 10
+const DEFAULT_MAX = 100000
+const DEFAULT_GROW_AFTER = 3
+
+const RANGE_ERROR_PATTERNS = [
+  /block range/i,
+  /range (is )?too (large|wide)/i,
+  /too many (results|logs|blocks)/i,
+  /query returned more than/i,
+  /exceeds? (the )?(max|maximum|limit)/i,
+  /response size/i,
+  /limit exceeded/i
+]
+
+// -32005 is the JSON-RPC "limit exceeded" code most providers use for getLogs
+const LIMIT_EXCEEDED_CODE = -32005
+
+const errorText = (error: unknown): string => {
+  if (!(error instanceof Error)) return String(error)
+  const details = (error as { details?: string; shortMessage?: string })
+  return [error.message, details.shortMessage, details.details].filter(Boolean).join(' ')
+}
+
+/**
+ * True when the RPC rejected a getLogs call for covering too many blocks or
+ * logs, rather than failing outright.
+ */
+export function isRangeError(error: unknown): boolean {
+  let current: unknown = error
+  while (current) {
+    if ((current as { code?: number }).code === LIMIT_EXCEEDED_CODE) return true
+    if (RANGE_ERROR_PATTERNS.some(pattern => pattern.test(errorText(current)))) return true
+    current = (current as { cause?: unknown }).cause
+  }
+  return false
+}
+
+/**
+ * Alchemy and others name a range that would work, e.g. "[0x1a2b, 0x1c3d]"
+ */
+export function suggestedRangeSize(error: unknown): number | undefined {
+  const match = errorText(error).match(/\[\s*(0x[0-9a-f]+)\s*,\s*(0x[0-9a-f]+)\s*\]/i)
+  if (!match) return undefined
+  const size = parseInt(match[2], 16) - parseInt(match[1], 16) + 1
+  return size > 0 ? size : undefined
+}
+
+/**
+ * Block-range size for getLogs that halves on range errors (or jumps to the
+ * size the RPC suggests) and doubles after a run of successes until the first
+ * range error caps it.
+ */
+export function createAdaptiveChunker(options: AdaptiveChunkOptions = {}) {
+  const min = options.min ?? DEFAULT_MIN
+  const max = options.max ?? DEFAULT_MAX
+  const growAfter = options.growAfter ?? DEFAULT_GROW_AFTER
+  let size = Math.min(max, Math.max(min, options.initial ?? DEFAULT_INITIAL))
+  let successes = 0
+  // After a range error, stay at the size that replaced the rejected one
+  let ceiling = max
+
+  const onSuccess = () => {
+    successes++
+    if (successes >= growAfter) {
+      size = Math.min(ceiling, size * 2)
+      successes = 0
+    }
+  }
+
+  // Returns false when the chunk is already as small as it may get
+  const onRangeError = (error: unknown): boolean => {
+    successes = 0
+    if (size <= min) return false
+    const suggested = suggestedRangeSize(error)
+    size = Math.max(min, suggested !== undefined && suggested < size ? suggested : Math.floor(size / 2))
+    ceiling = size
+    return true
+  }
+
+  return {
+    size: () => size,
+    onSuccess,
+    onRangeError
+  }
+}
+
+export type AdaptiveChunker = ReturnType<typeof createAdaptiveChunker>
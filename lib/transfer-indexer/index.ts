@@ -0,0 +1,4 @@
+export * from './types'
+export { createAdaptiveChunker, isRangeError, suggestedRangeSize, type AdaptiveChunker, type AdaptiveChunkOptions } from './chunking'
+export { createIndexedDbCheckpointStore, createMemoryCheckpointStore } from './checkpoint-store'
+export { createTransferIndexer, type SyncResult, type TransferIndexer, type TransferIndexerOptions } from './indexer'
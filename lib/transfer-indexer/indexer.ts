@@ -0,0 +1,244 @@
+import { parseAbiItem, type Address, type PublicClient } from 'viem'
+import { createAdaptiveChunker, isRangeError, type AdaptiveChunker, type AdaptiveChunkOptions } from './chunking'
+import type { BackfillProgress, CheckpointStore, WalletCheckpoint } from './types'
+
+const TRANSFER_EVENT = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)')
+
+// First sync covers about a day of Base blocks; older history comes from the backfill
+const DEFAULT_INITIAL_WINDOW = 50000
+const MAX_CHUNK_RETRIES = 3
+
+export interface TransferIndexerOptions {
+  client: PublicClient
+  store: CheckpointStore
+  // The backfill stops here; Base genesis by default
+  startBlock?: number
+  initialWindow?: number
+  chunk?: AdaptiveChunkOptions
+}
+
+export interface SyncResult {
+  tokens: string[]
+  headBlock: number
+  tailBlock: number
+  backfillComplete: boolean
+}
+
+type Direction = 'forward' | 'backward'
+
+const abortError = () => new DOMException('Transfer scan aborted', 'AbortError')
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const union = (existing: string[], found: string[]) => Array.from(new Set(existing.concat(found)))
+
+/**
+ * Finds every token a wallet has received by scanning Transfer logs with the
+ * wallet as `to`. Progress is checkpointed per wallet: sync() only covers
+ * blocks since the last scan, and backfill() walks history down to startBlock
+ * in the background, resuming where it stopped.
+ */
+export function createTransferIndexer(options: TransferIndexerOptions) {
+  const { client, store } = options
+  const startBlock = options.startBlock ?? 0
+  const initialWindow = options.initialWindow ?? DEFAULT_INITIAL_WINDOW
+
+  // Sync and backfill both write the checkpoint; writes for a wallet run one at a time
+  const locks = new Map<string, Promise<unknown>>()
+  const backfills = new Map<string, Promise<void>>()
+  let chainId: Promise<number> | null = null
+
+  const withLock = <T>(key: string, run: () => Promise<T>): Promise<T> => {
+    const next = (locks.get(key) ?? Promise.resolve()).catch(() => undefined).then(run)
+    locks.set(key, next)
+    next.catch(() => undefined).finally(() => {
+      if (locks.get(key) === next) locks.delete(key)
+    })
+    return next
+  }
+
+  const keyFor = async (wallet: string) => {
+    chainId ??= client.getChainId()
+    return `${await chainId}:${wallet.toLowerCase()}`
+  }
+
+  const update = (key: string, change: (checkpoint: WalletCheckpoint) => WalletCheckpoint) =>
+    withLock(key, async () => {
+      const checkpoint = await store.get(key)
+      if (!checkpoint) throw new Error(`No checkpoint for ${key}`)
+      const next = { ...change(checkpoint), updatedAt: Date.now() }
+      await store.put(next)
+      return next
+    })
+
+  const getTransferTokens = async (wallet: string, fromBlock: number, toBlock: number): Promise<string[]> => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const logs = await client.getLogs({
+          event: TRANSFER_EVENT,
+          args: { to: wallet as Address },
+          fromBlock: BigInt(fromBlock),
+          toBlock: BigInt(toBlock)
+        })
+        return logs.map(log => log.address.toLowerCase())
+      } catch (error) {
+        // Range errors are the chunker's problem, not a transient failure
+        if (isRangeError(error) || attempt >= MAX_CHUNK_RETRIES) throw error
+        await sleep(1000 * attempt)
+      }
+    }
+  }
+
+  // Scans [from, to] inclusive; onChunk commits each chunk before the next starts
+  const scanRange = async (
+    wallet: string,
+    from: number,
+    to: number,
+    direction: Direction,
+    chunker: AdaptiveChunker,
+    onChunk: (tokens: string[], chunkFrom: number, chunkTo: number) => Promise<unknown>,
+    signal?: AbortSignal
+  ) => {
+    let low = from
+    let high = to
+
+    while (low <= high) {
+      if (signal?.aborted) throw abortError()
+
+      const size = chunker.size()
+      const chunkFrom = direction === 'forward' ? low : Math.max(low, high - size + 1)
+      const chunkTo = direction === 'forward' ? Math.min(high, low + size - 1) : high
+
+      let tokens: string[]
+      try {
+        tokens = await getTransferTokens(wallet, chunkFrom, chunkTo)
+      } catch (error) {
+        if (isRangeError(error) && chunker.onRangeError(error)) {
+          console.log(`   ↘️ Range ${chunkFrom}-${chunkTo} too large, retrying with ${chunker.size()} blocks`)
+          continue
+        }
+        throw error
+      }
+
+      chunker.onSuccess()
+      await onChunk(tokens, chunkFrom, chunkTo)
+
+      if (direction === 'forward') {
+        low = chunkTo + 1
+      } else {
+        high = chunkFrom - 1
+      }
+    }
+  }
+
+  const toResult = (checkpoint: WalletCheckpoint): SyncResult => ({
+    tokens: checkpoint.tokens,
+    headBlock: checkpoint.headBlock,
+    tailBlock: checkpoint.tailBlock,
+    backfillComplete: checkpoint.tailBlock <= startBlock
+  })
+
+  /**
+   * Scan from the checkpoint to the chain head. A wallet seen for the first
+   * time starts with the last `initialWindow` blocks.
+   */
+  const sync = async (wallet: string, signal?: AbortSignal): Promise<SyncResult> => {
+    const key = await keyFor(wallet)
+    const head = Number(await client.getBlockNumber())
+
+    const checkpoint = await withLock(key, async () => {
+      const existing = await store.get(key)
+      if (existing) return existing
+
+      const first = Math.max(startBlock, head - initialWindow + 1)
+      const created: WalletCheckpoint = {
+        key,
+        chainId: await chainId!,
+        wallet: wallet.toLowerCase(),
+        tokens: [],
+        headBlock: first - 1,
+        tailBlock: first,
+        chunkSize: createAdaptiveChunker(options.chunk).size(),
+        updatedAt: Date.now()
+      }
+      await store.put(created)
+      return created
+    })
+
+    if (checkpoint.headBlock >= head) return toResult(checkpoint)
+
+    console.log(`📊 Scanning Transfer logs ${checkpoint.headBlock + 1}-${head} (chunks of ${checkpoint.chunkSize})`)
+
+    const chunker = createAdaptiveChunker({ ...options.chunk, initial: checkpoint.chunkSize })
+    let latest = checkpoint
+    await scanRange(wallet, checkpoint.headBlock + 1, head, 'forward', chunker, async (tokens, _from, chunkTo) => {
+      latest = await update(key, current => ({
+        ...current,
+        tokens: union(current.tokens, tokens),
+        headBlock: Math.max(current.headBlock, chunkTo),
+        chunkSize: chunker.size()
+      }))
+    }, signal)
+
+    return toResult(latest)
+  }
+
+  const runBackfill = async (
+    wallet: string,
+    key: string,
+    signal?: AbortSignal,
+    onProgress?: (progress: BackfillProgress) => void
+  ) => {
+    const checkpoint = await store.get(key)
+    if (!checkpoint || checkpoint.tailBlock <= startBlock) return
+
+    console.log(`🕰️ Backfilling Transfer history below block ${checkpoint.tailBlock}`)
+
+    const chunker = createAdaptiveChunker({ ...options.chunk, initial: checkpoint.chunkSize })
+    await scanRange(wallet, startBlock, checkpoint.tailBlock - 1, 'backward', chunker, async (tokens, chunkFrom) => {
+      const next = await update(key, current => ({
+        ...current,
+        tokens: union(current.tokens, tokens),
+        tailBlock: Math.min(current.tailBlock, chunkFrom),
+        chunkSize: chunker.size()
+      }))
+      onProgress?.({
+        wallet: next.wallet,
+        tailBlock: next.tailBlock,
+        targetBlock: startBlock,
+        tokenCount: next.tokens.length,
+        done: next.tailBlock <= startBlock
+      })
+    }, signal)
+  }
+
+  /**
+   * Walk history below the checkpoint's tail down to startBlock. Every chunk
+   * is checkpointed, so an aborted backfill resumes where it stopped. One
+   * backfill per wallet at a time; a second call joins the running one.
+   */
+  const backfill = async (
+    wallet: string,
+    backfillOptions: { signal?: AbortSignal; onProgress?: (progress: BackfillProgress) => void } = {}
+  ): Promise<void> => {
+    const key = await keyFor(wallet)
+    let running = backfills.get(key)
+    if (!running) {
+      running = runBackfill(wallet, key, backfillOptions.signal, backfillOptions.onProgress)
+        .finally(() => backfills.delete(key))
+      backfills.set(key, running)
+    }
+    return running
+  }
+
+  const getCheckpoint = async (wallet: string) => store.get(await keyFor(wallet))
+
+  const reset = async (wallet: string) => {
+    const key = await keyFor(wallet)
+    await withLock(key, () => store.delete(key))
+  }
+
+  return { sync, backfill, getCheckpoint, reset }
+}
+
+export type TransferIndexer = ReturnType<typeof createTransferIndexer>
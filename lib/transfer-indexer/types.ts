@@ -0,0 +1,31 @@
+// Per-wallet Transfer-log scan state, persisted between scans
+
+export interface WalletCheckpoint {
+  // `${chainId}:${wallet}`
+  key: string
+  chainId: number
+  wallet: string
+  // Every token that has ever sent the wallet a Transfer, lowercased
+  tokens: string[]
+  // Highest block scanned going forward; the next sync starts after it
+  headBlock: number
+  // Lowest block scanned; everything below still needs backfilling
+  tailBlock: number
+  // Chunk size that last worked against this RPC
+  chunkSize: number
+  updatedAt: number
+}
+
+export interface CheckpointStore {
+  get: (key: string) => Promise<WalletCheckpoint | null>
+  put: (checkpoint: WalletCheckpoint) => Promise<void>
+  delete: (key: string) => Promise<void>
+}
+
+export interface BackfillProgress {
+  wallet: string
+  tailBlock: number
+  targetBlock: number
+  tokenCount: number
+  done: boolean
+}
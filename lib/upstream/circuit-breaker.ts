@@ -0,0 +1,58 @@
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures before the circuit opens
+  failureThreshold?: number
+  // How long an open circuit rejects calls before letting one trial through
+  cooldownMs?: number
+}
+
+export function createCircuitBreaker({ failureThreshold = 5, cooldownMs = 30 * 1000 }: CircuitBreakerOptions = {}) {
+  let state: CircuitState = 'closed'
+  let consecutiveFailures = 0
+  let openedAt = 0
+  let trialInFlight = false
+
+  // True when a call may go out; in half-open only a single trial is allowed
+  const tryAcquire = (): boolean => {
+    if (state === 'open' && Date.now() - openedAt >= cooldownMs) {
+      state = 'half-open'
+    }
+    if (state === 'half-open') {
+      if (trialInFlight) return false
+      trialInFlight = true
+      return true
+    }
+    return state === 'closed'
+  }
+
+  const recordSuccess = () => {
+    state = 'closed'
+    consecutiveFailures = 0
+    trialInFlight = false
+  }
+
+  const recordFailure = () => {
+    consecutiveFailures += 1
+    if (state === 'half-open' || consecutiveFailures >= failureThreshold) {
+      state = 'open'
+      openedAt = Date.now()
+    }
+    trialInFlight = false
+  }
+
+  // The acquired call never went out, so it says nothing about the provider
+  const release = () => {
+    trialInFlight = false
+  }
+
+  return {
+    tryAcquire,
+    recordSuccess,
+    recordFailure,
+    release,
+    getState: () => state
+  }
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>
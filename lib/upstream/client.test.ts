@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createUpstreamClient } from './client'
+import { UpstreamError } from './errors'
+
+const PRICES_URL = 'https://api.example.com/prices'
+
+describe('createUpstreamClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('still lets a half-open trial through after a request gave up waiting for a token', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 500 }))
+      .mockResolvedValueOnce(new Response('{}', { status: 200 }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const client = createUpstreamClient({ id: 'test', capacity: 1, refillPerSecond: 1, failureThreshold: 1, cooldownMs: 0 })
+
+    // Opens the circuit and empties the bucket
+    await client.request(PRICES_URL)
+    expect(client.getCircuitState()).toBe('open')
+
+    // Gets the half-open trial, then can't get a token in time
+    const error = await client.request(`${PRICES_URL}?retry`, { maxQueueMs: 0 }).catch(e => e)
+    expect(error).toBeInstanceOf(UpstreamError)
+    expect(error.code).toBe('rate-limited')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1000)
+
+    const response = await client.request(`${PRICES_URL}?again`)
+    expect(response.status).toBe(200)
+    expect(client.getCircuitState()).toBe('closed')
+  })
+})
@@ -0,0 +1,129 @@
+import { createCircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker'
+import { abortError, UpstreamError } from './errors'
+import { createTokenBucket, type TokenBucketOptions } from './token-bucket'
+
+export interface UpstreamConfig extends TokenBucketOptions, CircuitBreakerOptions {
+  id: string
+  timeoutMs?: number
+  // A 429 asking us to wait longer than this fails instead of retrying
+  maxRetryAfterMs?: number
+}
+
+export interface UpstreamRequestOptions {
+  init?: RequestInit
+  timeoutMs?: number
+  // Cancels this caller's wait only; a shared in-flight fetch keeps going
+  signal?: AbortSignal
+  // Fails as rate-limited instead of waiting longer than this for a token
+  maxQueueMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_MAX_RETRY_AFTER_MS = 5000
+// Used when a 429 arrives without a usable Retry-After
+const DEFAULT_RETRY_AFTER_MS = 10000
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+function withAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(abortError())
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError())
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * fetch() for one third-party API: a token bucket paces calls, identical
+ * concurrent requests share one fetch, 429s pause the bucket for Retry-After,
+ * and a circuit breaker stops calls while the provider keeps failing.
+ */
+export function createUpstreamClient(config: UpstreamConfig) {
+  const { id } = config
+  const bucket = createTokenBucket(config)
+  const breaker = createCircuitBreaker(config)
+  const maxRetryAfterMs = config.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS
+  const inFlight = new Map<string, Promise<Response>>()
+
+  const fetchOnce = async (url: string, init: RequestInit, timeoutMs: number): Promise<Response> => {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal })
+    } catch (error) {
+      breaker.recordFailure()
+      throw controller.signal.aborted
+        ? new UpstreamError(id, 'timeout', `${id} timed out after ${timeoutMs}ms`, { cause: error })
+        : new UpstreamError(id, 'network', `${id} request failed`, { cause: error })
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  const execute = async (url: string, init: RequestInit, timeoutMs: number, deadline: number): Promise<Response> => {
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.tryAcquire()) {
+        throw new UpstreamError(id, 'circuit-open', `${id} is failing, skipping calls for now`)
+      }
+
+      if (!(await bucket.take(undefined, deadline))) {
+        breaker.release()
+        throw new UpstreamError(id, 'rate-limited', `${id} request budget exhausted, not queueing past the deadline`)
+      }
+      const response = await fetchOnce(url, init, timeoutMs)
+
+      if (response.status === 429) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? DEFAULT_RETRY_AFTER_MS
+        bucket.pauseUntil(Date.now() + retryAfterMs)
+        breaker.recordFailure()
+
+        if (attempt === 0 && retryAfterMs <= maxRetryAfterMs) continue
+        throw new UpstreamError(id, 'rate-limited', `${id} rate limited, retry in ${Math.ceil(retryAfterMs / 1000)}s`, {
+          status: 429,
+          retryAfterMs
+        })
+      }
+
+      if (response.status >= 500) {
+        breaker.recordFailure()
+      } else {
+        breaker.recordSuccess()
+      }
+      return response
+    }
+  }
+
+  const request = (url: string, options: UpstreamRequestOptions = {}): Promise<Response> => {
+    const init = options.init ?? {}
+    const key = `${init.method ?? 'GET'} ${url} ${typeof init.body === 'string' ? init.body : ''}`
+
+    let shared = inFlight.get(key)
+    if (!shared) {
+      const deadline = options.maxQueueMs === undefined ? Infinity : Date.now() + options.maxQueueMs
+      shared = execute(url, init, options.timeoutMs ?? config.timeoutMs ?? DEFAULT_TIMEOUT_MS, deadline)
+        .finally(() => inFlight.delete(key))
+      inFlight.set(key, shared)
+    }
+
+    // Each caller reads its own copy of the body
+    const response = shared.then(res => res.clone())
+    return options.signal ? withAbort(response, options.signal) : response
+  }
+
+  return {
+    id,
+    request,
+    getCircuitState: breaker.getState
+  }
+}
+
+export type UpstreamClient = ReturnType<typeof createUpstreamClient>
@@ -0,0 +1,24 @@
+export type UpstreamErrorCode = 'circuit-open' | 'rate-limited' | 'timeout' | 'network'
+
+export class UpstreamError extends Error {
+  readonly provider: string
+  readonly code: UpstreamErrorCode
+  readonly status?: number
+  readonly retryAfterMs?: number
+
+  constructor(
+    provider: string,
+    code: UpstreamErrorCode,
+    message: string,
+    options?: { cause?: unknown; status?: number; retryAfterMs?: number }
+  ) {
+    super(message, { cause: options?.cause })
+    this.name = 'UpstreamError'
+    this.provider = provider
+    this.code = code
+    this.status = options?.status
+    this.retryAfterMs = options?.retryAfterMs
+  }
+}
+
+export const abortError = () => new DOMException('Upstream request aborted', 'AbortError')
@@ -0,0 +1,29 @@
+import { createUpstreamClient, type UpstreamClient, type UpstreamConfig } from './client'
+
+export { createUpstreamClient, parseRetryAfter, type UpstreamClient, type UpstreamConfig, type UpstreamRequestOptions } from './client'
+export { createCircuitBreaker, type CircuitState } from './circuit-breaker'
+export { createTokenBucket } from './token-bucket'
+export { UpstreamError, type UpstreamErrorCode } from './errors'
+
+export type UpstreamId = 'dexscreener' | 'coingecko' | 'moralis'
+
+const UPSTREAM_CONFIGS: Record<UpstreamId, UpstreamConfig> = {
+  // DexScreener allows 300 requests/min on the token endpoints
+  dexscreener: { id: 'dexscreener', capacity: 10, refillPerSecond: 4 },
+  // CoinGecko's public tier bans well before its nominal 30/min
+  coingecko: { id: 'coingecko', capacity: 5, refillPerSecond: 0.25, cooldownMs: 60 * 1000 },
+  // Moralis allows 25 requests/sec on the free plan
+  moralis: { id: 'moralis', capacity: 25, refillPerSecond: 20 }
+}
+
+// One client per provider per instance, so every route and source shares the budget
+const clients = new Map<UpstreamId, UpstreamClient>()
+
+export function getUpstream(id: UpstreamId): UpstreamClient {
+  let client = clients.get(id)
+  if (!client) {
+    client = createUpstreamClient(UPSTREAM_CONFIGS[id])
+    clients.set(id, client)
+  }
+  return client
+}
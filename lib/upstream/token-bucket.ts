@@ -0,0 +1,67 @@
+import { abortError } from './errors'
+
+export interface TokenBucketOptions {
+  // Burst size
+  capacity: number
+  refillPerSecond: number
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(abortError())
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/**
+ * Classic token bucket. take() waits for a token instead of failing, unless
+ * the token can't arrive before the caller's deadline, and pauseUntil()
+ * empties the bucket when the provider asks us to back off.
+ */
+export function createTokenBucket({ capacity, refillPerSecond }: TokenBucketOptions) {
+  let tokens = capacity
+  let lastRefill = Date.now()
+  let pausedUntil = 0
+
+  const refill = () => {
+    const now = Date.now()
+    // lastRefill sits in the future while paused
+    if (now <= lastRefill) return
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * refillPerSecond)
+    lastRefill = now
+  }
+
+  // Resolves false without taking a token when waiting would pass the deadline
+  const take = async (signal?: AbortSignal, deadline = Infinity): Promise<boolean> => {
+    for (;;) {
+      refill()
+      const now = Date.now()
+
+      if (tokens >= 1 && now >= pausedUntil) {
+        tokens -= 1
+        return true
+      }
+
+      const waitMs = now < pausedUntil ? pausedUntil - now : ((1 - tokens) / refillPerSecond) * 1000
+      if (now + waitMs > deadline) return false
+      await sleep(waitMs, signal)
+    }
+  }
+
+  const pauseUntil = (timestamp: number) => {
+    pausedUntil = Math.max(pausedUntil, timestamp)
+    tokens = 0
+    lastRefill = timestamp
+  }
+
+  return { take, pauseUntil }
+}
+
+export type TokenBucket = ReturnType<typeof createTokenBucket>
@@ -1,7 +1,8 @@
-import { createConfig, http } from 'wagmi'
-import { base } from 'wagmi/chains'
+import { createConfig, http, type Transport } from 'wagmi'
+import type { Chain } from 'viem'
 import { injected, metaMask, walletConnect, coinbaseWallet } from 'wagmi/connectors'
 import { farcasterMiniApp } from '@farcaster/miniapp-wagmi-connector'
+import { getDeployments } from '@/lib/deployments'
 
 console.log('🔧 WAGMI CONFIG - Production Setup:')
 
@@ -14,39 +15,23 @@ console.log(`  WalletConnect Project ID: ${walletConnectProjectId ? 'SET' : 'MIS
 console.log(`  App Name: ${appName}`)
 console.log(`  App URL: ${appUrl}`)
 
-// RPC Configuration with 1rpc.io as primary (working for web app)
-const getRpcUrl = () => {
-  // Priority: 1rpc.io (working) > Custom RPC > PublicNode > Alchemy
-  if (process.env.NEXT_PUBLIC_BASE_RPC_URL) {
-    return process.env.NEXT_PUBLIC_BASE_RPC_URL
-  }
-  
-  // Use 1rpc.io as primary (working for web app)
-  return 'https://1rpc.io/base'
-  
-  // Fallback options (commented out)
-  // return 'https://base-rpc.publicnode.com'
-  // return `https://base-mainnet.g.alchemy.com/v2/${process.env.NEXT_PUBLIC_ALCHEMY_API_KEY}`
-}
+// One transport per supported chain; RPC URLs come from lib/deployments
+const deployments = getDeployments()
 
 // Create transport with retry logic and exponential backoff
-const createRetryTransport = () => {
-  const rpcUrl = getRpcUrl()
-  console.log('🔧 RPC Configuration:')
-  console.log('  Base RPC URL:', process.env.NEXT_PUBLIC_BASE_RPC_URL ? 'SET' : 'MISSING')
-  console.log('  Alchemy API Key:', process.env.NEXT_PUBLIC_ALCHEMY_API_KEY ? 'SET' : 'MISSING')
-  console.log('  RPC URL:', rpcUrl)
-  console.log('🌐 Using RPC:', rpcUrl.includes('alchemy') ? 'Alchemy' : rpcUrl.includes('1rpc.io') ? '1rpc.io' : 'Custom RPC')
-  console.log('✅ RPC Configuration loaded successfully!')
-  
-  return http(rpcUrl, {
-    retryCount: 3,
-    retryDelay: 2000, // Fixed delay instead of function
-    timeout: 10000,
-  })
-}
+const createRetryTransport = (rpcUrl: string) => http(rpcUrl, {
+  retryCount: 3,
+  retryDelay: 2000, // Fixed delay instead of function
+  timeout: 10000,
+})
+
+console.log('🔧 RPC Configuration:')
+console.log('  Base RPC URL:', process.env.NEXT_PUBLIC_BASE_RPC_URL ? 'SET' : 'MISSING')
+deployments.forEach(deployment => console.log(`🌐 ${deployment.chain.name} (${deployment.chain.id}):`, deployment.rpcUrl))
 
-const transport = createRetryTransport()
+const transports: Record<number, Transport> = Object.fromEntries(
+  deployments.map(deployment => [deployment.chain.id, createRetryTransport(deployment.rpcUrl)])
+)
 
 // Create Farcaster connector (no parameters needed)
 const farcasterConnector = farcasterMiniApp()
@@ -92,16 +77,14 @@ const connectors = [
 
 console.log(`🔧 Created ${connectors.length} connectors`)
 
-// Create config with proper initialization
+// Create config with proper initialization (Base mainnet first, so it's the default chain)
 const config = createConfig({
-  chains: [base],
+  chains: deployments.map(deployment => deployment.chain) as [Chain, ...Chain[]],
   connectors,
-  transports: {
-    [base.id]: transport,
-  },
+  transports,
   ssr: false, // Disable SSR for better client-side initialization
 })
 
-console.log('✅ Wagmi config created for Base mainnet')
+console.log(`✅ Wagmi config created for ${deployments.map(deployment => deployment.chain.name).join(', ')}`)
 
 export { config } 
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Server only: scanning pulls in the server cache and server-side API keys
+
+export { scanWalletDust, type WalletDustScan } from './scan'
@@ -0,0 +1,120 @@
+import { createPublicClient, formatUnits, http, type PublicClient } from 'viem'
+import { base } from 'viem/chains'
+import type { DustToken } from '@/lib/api-schemas'
+import { DUST_MAX_VALUE_USD, DUST_MIN_VALUE_USD } from '@/lib/contracts'
+import { getMoralisClient } from '@/lib/moralis'
+import { getServerCache } from '@/lib/server-cache'
+import { loadTokenRegistry, tokenListMetadataFallback } from '@/lib/token-lists'
+import { createAdapterMetadataCache, createMetadataResolver, type TokenMetadata } from '@/lib/token-metadata'
+import { assessTokenRisk } from '@/lib/token-risk'
+import { createConfiguredPriceSources, createPriceOracle } from '@/lib/price-oracle'
+import { createCachedPriceOracle } from '@/lib/price-oracle/cached'
+import {
+  createConfiguredProviders,
+  createDiscoveryRegistry,
+  getServerDiscoveryProviderIds,
+  type ProviderOutcome
+} from '@/lib/token-discovery'
+
+const DEFAULT_BASE_RPC_URL = 'https://1rpc.io/base'
+
+// BASE_RPC_URL can point at a keyed node the browser never sees
+const publicClient = createPublicClient({
+  chain: base,
+  transport: http(process.env.BASE_RPC_URL || process.env.NEXT_PUBLIC_BASE_RPC_URL || DEFAULT_BASE_RPC_URL)
+}) as PublicClient
+
+const registry = createDiscoveryRegistry(createConfiguredProviders({
+  ids: getServerDiscoveryProviderIds(),
+  moralis: getMoralisClient()
+}))
+
+const metadataResolver = createMetadataResolver({
+  client: publicClient,
+  chainId: base.id,
+  cache: createAdapterMetadataCache(getServerCache()),
+  fallback: tokenListMetadataFallback
+})
+
+// Shares the per-address cache with /api/tokens/prices
+const priceOracle = createCachedPriceOracle(createPriceOracle(createConfiguredPriceSources({ publicClient, moralis: getMoralisClient() })))
+
+export interface WalletDustScan {
+  // Every token with a balance; isEligible marks the dust
+  tokens: DustToken[]
+  outcomes: ProviderOutcome[]
+  priceCacheHits: number
+}
+
+/**
+ * The browser hook's detection flow, run server-side: discover balances
+ * through the keyed providers, fill metadata on-chain, then price and value.
+ */
+export async function scanWalletDust(walletAddress: string, signal: AbortSignal): Promise<WalletDustScan> {
+  const { tokens: discovered, outcomes } = await registry.discover(walletAddress, signal)
+  const withBalance = discovered.filter(token => token.balance > BigInt(0))
+
+  if (withBalance.length === 0) {
+    return { tokens: [], outcomes, priceCacheHits: 0 }
+  }
+
+  // Loaded first so the metadata fallback sees the remote lists too
+  const tokenList = await loadTokenRegistry()
+
+  const metadata = await metadataResolver.resolve(
+    withBalance.filter(token => !token.symbol || token.decimals === undefined).map(token => token.address),
+    signal
+  ).catch(error => {
+    console.warn('⚠️ On-chain metadata lookup failed:', error)
+    return new Map<string, TokenMetadata>()
+  })
+
+  const priced = await priceOracle.getPrices(withBalance.map(token => token.address), signal)
+  const prices = new Map(priced.prices.map(price => [price.address, price]))
+
+  // Pool info only comes from DexScreener; a cached miss counts as checked
+  const poolsChecked = !priced.outcomes.some(outcome => outcome.id === 'dexscreener' && outcome.status !== 'fulfilled')
+
+  const valued = withBalance.map((token): Omit<DustToken, 'riskLevel' | 'riskReasons'> => {
+    const onChain = metadata.get(token.address)
+    const listed = tokenList.get(base.id, token.address)
+    const decimals = token.decimals ?? onChain?.decimals ?? 18
+    const balanceFormatted = formatUnits(token.balance, decimals)
+    const price = prices.get(token.address)
+    const priceUSD = price?.price ?? 0
+    const valueUSD = priceUSD * parseFloat(balanceFormatted)
+
+    return {
+      address: token.address,
+      symbol: token.symbol || onChain?.symbol || 'UNKNOWN',
+      name: token.name || onChain?.name || 'Unknown Token',
+      decimals,
+      balance: token.balance.toString(),
+      balanceFormatted,
+      priceUSD,
+      valueUSD,
+      liquidityUSD: price?.liquidityUsd,
+      dexId: price?.dexId,
+      pairAddress: price?.pairAddress,
+      noRoutablePool: poolsChecked && !price?.pairAddress,
+      isEligible: valueUSD >= DUST_MIN_VALUE_USD && valueUSD <= DUST_MAX_VALUE_USD,
+      logo: listed?.logoURI ?? token.logo,
+      verified: !!listed,
+      tags: listed?.tags,
+      possibleSpam: token.possibleSpam,
+      sources: token.sources
+    }
+  })
+
+  const risks = await assessTokenRisk(
+    valued.map(token => ({ ...token, balance: BigInt(token.balance) })),
+    { client: publicClient, wallet: walletAddress, chainId: base.id, registry: tokenList, signal }
+  )
+
+  const tokens = valued.map((token): DustToken => {
+    const risk = risks.get(token.address.toLowerCase())
+    return { ...token, riskLevel: risk?.level ?? 'low', riskReasons: risk?.reasons ?? [] }
+  })
+
+  return { tokens, outcomes, priceCacheHits: priced.cacheHits }
+}
@@ -1,6 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { guardApiRequest } from '@/lib/api-guard'
+
+export async function middleware(request: NextRequest) {
+  // API routes: origin allowlist, rate limits and body validation first
+  let apiHeaders: Headers | null = null
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    const guard = await guardApiRequest(request)
+    if ('response' in guard) {
+      return guard.response
+    }
+    apiHeaders = guard.headers
+  }
 
-export function middleware(request: NextRequest) {
   // Create response
   const response = NextResponse.next()
 
@@ -28,12 +39,8 @@ export function middleware(request: NextRequest) {
   response.headers.set('Referrer-Policy', 'origin-when-cross-origin')
   response.headers.set('Permissions-Policy', 'camera=(), microphone=(), geolocation=()')
   
-  // CORS headers for API routes
-  if (request.nextUrl.pathname.startsWith('/api/')) {
-    response.headers.set('Access-Control-Allow-Origin', '*')
-    response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
-    response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With')
-  }
+  // CORS (allowed origins only) and rate limit headers for API routes
+  apiHeaders?.forEach((value, key) => response.headers.set(key, value))
 
   return response
 }
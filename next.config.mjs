@@ -15,6 +15,11 @@ const nextConfig = {
     },
   },
 
+  // next lint only covers pages, app, components, lib and src by default
+  eslint: {
+    dirs: ['app', 'components', 'lib', 'hooks'],
+  },
+
   // Performance optimizations
   swcMinify: true,
   compress: true,
@@ -113,18 +118,10 @@ const nextConfig = {
           // IMPORTANT: Do NOT set X-Frame-Options at all to allow iframe embedding
           // Vercel's automatic X-Frame-Options: DENY will be overridden by middleware.ts
           
-          // Basic CORS headers for API routes
-          {
-            key: 'Access-Control-Allow-Origin',
-            value: '*',
-          },
-          {
-            key: 'Access-Control-Allow-Methods',
-            value: 'GET, POST, PUT, DELETE, OPTIONS',
-          },
+          // CORS for API routes is set per origin in middleware.ts (ALLOWED_ORIGINS)
           {
-            key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type, Authorization, X-Requested-With',
+            key: 'X-Content-Type-Options',
+            value: 'nosniff',
           },
         ],
       },
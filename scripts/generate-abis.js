@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * 🧬 ABI codegen
+ *
+ * Writes typed ABI constants to lib/abis from the Hardhat artifacts in
+ * contracts/artifacts. With --check it writes nothing and fails when the
+ * generated files differ from the artifacts, or the artifacts from the
+ * Solidity source they were compiled from.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const CONTRACTS_DIR = path.join(ROOT, 'contracts');
+const ARTIFACTS_DIR = path.join(CONTRACTS_DIR, 'artifacts');
+const OUT_DIR = path.join(ROOT, 'lib/abis');
+
+const TARGETS = [
+  { artifact: 'contracts/SplitRouter.sol/SplitRouter.json', constant: 'SPLIT_ROUTER_ABI', file: 'split-router.ts' },
+  { artifact: 'contracts/SplitRouterQuoter.sol/SplitRouterQuoter.json', constant: 'SPLIT_ROUTER_QUOTER_ABI', file: 'split-router-quoter.ts' },
+  // The Uniswap interfaces SplitRouter compiles against
+  { artifact: 'contracts/SplitRouter.sol/ISwapRouter.json', constant: 'UNISWAP_V3_ROUTER_ABI', file: 'uniswap-v3-router.ts' },
+  { artifact: 'contracts/SplitRouter.sol/IQuoter.json', constant: 'UNISWAP_V3_QUOTER_ABI', file: 'uniswap-v3-quoter.ts' }
+];
+
+const check = process.argv.includes('--check');
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function render(target, artifact) {
+  return [
+    `// Generated by scripts/generate-abis.js from contracts/artifacts/${target.artifact} - do not edit.`,
+    '// Run `npm run abi:generate` after recompiling the contracts.',
+    '',
+    `export const ${target.constant} = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+    ''
+  ].join('\n');
+}
+
+// The build info keeps the exact source each artifact was compiled from
+function staleSource(target, artifact) {
+  const debugFile = path.join(ARTIFACTS_DIR, target.artifact.replace(/\.json$/, '.dbg.json'));
+  const buildInfo = readJson(path.resolve(path.dirname(debugFile), readJson(debugFile).buildInfo));
+  const compiled = buildInfo.input.sources[artifact.sourceName];
+  const sourceFile = path.join(CONTRACTS_DIR, artifact.sourceName);
+
+  if (!compiled || !fs.existsSync(sourceFile)) return `${artifact.sourceName} is missing`;
+  return fs.readFileSync(sourceFile, 'utf8') === compiled.content ? null : `${artifact.sourceName} changed since it was compiled`;
+}
+
+const problems = [];
+
+for (const target of TARGETS) {
+  const artifact = readJson(path.join(ARTIFACTS_DIR, target.artifact));
+  const outFile = path.join(OUT_DIR, target.file);
+  const generated = render(target, artifact);
+
+  const stale = staleSource(target, artifact);
+  if (stale) {
+    problems.push(`${stale} - run \`npx hardhat compile\` in contracts/`);
+  }
+
+  if (check) {
+    const current = fs.existsSync(outFile) ? fs.readFileSync(outFile, 'utf8') : null;
+    if (current !== generated) {
+      problems.push(`lib/abis/${target.file} is out of date - run \`npm run abi:generate\``);
+    }
+    continue;
+  }
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  fs.writeFileSync(outFile, generated);
+  console.log(`✅ ${target.constant} → lib/abis/${target.file} (${artifact.abi.length} entries)`);
+}
+
+if (problems.length > 0) {
+  Array.from(new Set(problems)).forEach(problem => console.error(`❌ ${problem}`));
+  process.exit(1);
+}
+
+if (check) {
+  console.log('✅ ABIs match contracts/artifacts and the Solidity source');
+}